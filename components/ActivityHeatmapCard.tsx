@@ -0,0 +1,144 @@
+"use client";
+
+import { createCalendarGrid, type CalendarLayout, type DailyValue } from "@/utils/calendar";
+import { useValueFormatter, type ValueFormat } from "@/utils/format";
+import { quantizeIntensity } from "@/utils/halftone";
+import { DotGridTooltip, useDotGridInspection } from "./DotGridInspection";
+import { COLUMN_STAGGER_DELAY, DOT_FULL_SIZE, DOT_PITCH, DOT_SPACING, LoaderDot } from "./LoaderDot";
+
+const heatPalette = {
+  full: "#1672EB",
+  mid: "#A9C9F5",
+  empty: "#D9D9D9",
+  highlight: "#0B4DA8",
+  highlightTrack: "#B9D3F8",
+};
+
+// Month labels closer than this many columns would overlap, so the earlier one is dropped
+const MIN_MONTH_LABEL_COLUMNS = 4;
+
+// Long single-row calendars speed up the stagger so the entrance stays around the same length
+const MAX_STAGGER_SECONDS = 23 * COLUMN_STAGGER_DELAY;
+
+// Dates are laid out by UTC day, so they're formatted in UTC as well
+const monthFormat = new Intl.DateTimeFormat("en-US", { month: "short", timeZone: "UTC" });
+const dayFormat = new Intl.DateTimeFormat("en-US", {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+interface ActivityHeatmapCardProps {
+  label: string;
+  days: DailyValue[]; // One entry per day, gaps render as empty dots
+  layout?: CalendarLayout; // Weeks as columns, or all days in one row (default "week")
+  weekStartsOn?: 0 | 1; // Sunday or Monday at the top (default 0)
+  buckets?: number; // Quantile buckets, each one a step up in dot size and color (default 4)
+  format?: ValueFormat; // Total and tooltip values (default "decimal")
+  staggerAnimation?: boolean; // Enable column-by-column fade in
+}
+
+export function ActivityHeatmapCard({
+  label,
+  days,
+  layout = "week",
+  weekStartsOn = 0,
+  buckets = 4,
+  format = "decimal",
+  staggerAnimation = false,
+}: ActivityHeatmapCardProps) {
+  // Fewer than one bucket would leave nothing to divide the intensity by
+  const bucketCount = Math.max(1, buckets);
+  const calendar = createCalendarGrid(days, { layout, weekStartsOn, buckets: bucketCount });
+  const formatValue = useValueFormatter(format);
+  // Summed from the calendar, so days it couldn't place don't count toward the header either
+  const total = calendar.cells.flat().reduce((sum, day) => sum + (day?.value ?? 0), 0);
+  // Keyboard inspection starts on the last day
+  const lastColumn = calendar.cells[calendar.columns - 1] ?? [];
+  const lastRow = lastColumn.reduce((found, day, row) => (day ? row : found), 0);
+  const { inspected, tooltipId, handlers } = useDotGridInspection({
+    columns: calendar.columns,
+    rows: calendar.rows,
+    start: { column: calendar.columns - 1, row: lastRow },
+    enabled: calendar.columns > 0,
+  });
+  const inspectedDay = inspected ? calendar.cells[inspected.column]?.[inspected.row] : null;
+  const staggerStep = Math.min(COLUMN_STAGGER_DELAY, MAX_STAGGER_SECONDS / Math.max(1, calendar.columns));
+
+  // Keep a month label only when there's room before the next one
+  const monthLabels = calendar.months.filter(
+    (month, index) => (calendar.months[index + 1]?.column ?? Infinity) - month.column >= MIN_MONTH_LABEL_COLUMNS
+  );
+
+  return (
+    <div className="w-fit min-w-[286px] rounded-[12px] bg-[#f4f4f5] p-[2px]">
+      <div className="rounded-[11px] bg-white px-3 pb-3 pt-2">
+        <div className="mb-2 flex items-baseline justify-between gap-4">
+          <p className="text-xs font-medium text-[#6d7178]">{label}</p>
+          <p className="text-xs font-medium text-[#1f2123]">{formatValue(total)}</p>
+        </div>
+        <div className="relative mb-1 h-[9px]">
+          {monthLabels.map((month) => (
+            <span
+              key={month.date}
+              className="absolute top-0 text-[9px] font-medium leading-[9px] text-[#c9cbcf]"
+              style={{ left: month.column * DOT_PITCH }}
+            >
+              {monthFormat.format(month.date)}
+            </span>
+          ))}
+        </div>
+        <div
+          role="group"
+          tabIndex={0}
+          aria-label={`${label} calendar, use the arrow keys to inspect days`}
+          aria-describedby={inspectedDay ? tooltipId : undefined}
+          className="relative w-fit cursor-crosshair touch-pan-y rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-[#1672EB]/40"
+          {...handlers}
+        >
+          <div
+            className="flex"
+            style={{
+              gap: `${DOT_SPACING}px`,
+            }}
+          >
+            {calendar.cells.map((cells, column) => (
+              <div
+                key={column}
+                className="flex flex-col"
+                style={{
+                  gap: `${DOT_SPACING}px`,
+                }}
+              >
+                {cells.map((day, row) => {
+                  if (!day) {
+                    return <div key={row} style={{ width: DOT_FULL_SIZE, height: DOT_FULL_SIZE }} />;
+                  }
+                  const intensity = day.bucket / bucketCount;
+                  return (
+                    <LoaderDot
+                      key={row}
+                      state={quantizeIntensity(intensity)}
+                      intensity={intensity}
+                      palette={heatPalette}
+                      staggerDelay={staggerAnimation ? column * staggerStep : 0}
+                      highlighted={inspected?.column === column && inspected.row === row}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          {inspected && inspectedDay && (
+            <DotGridTooltip id={tooltipId} column={inspected.column}>
+              <p className="text-[#c9cbcf]">{dayFormat.format(inspectedDay.date)}</p>
+              <p>{inspectedDay.value === undefined ? "No data" : formatValue(inspectedDay.value)}</p>
+            </DotGridTooltip>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,129 @@
 "use client";
 
-import type { DotState } from "@/utils/halftone";
-import { DOT_FULL_SIZE, DOT_SPACING, LoaderDot } from "./LoaderDot";
-
-interface Position {
-  x: number;
-  y: number;
-}
+import { useEffect, useState } from "react";
+import type { GridDimensions, HalftoneStrategy } from "@/utils/halftone";
+import { createStateGrid, getCellState, setCellState, type StateGrid } from "@/utils/dotGrid";
+import { chartPositions, createChartStateGrid, type ChartMode } from "@/utils/chart";
+import { mixColors } from "@/utils/color";
+import { useValueFormatter, type ValueFormat } from "@/utils/format";
+import { createRandom, hashSeed } from "@/utils/random";
+import {
+  columnSpans,
+  resampleSeries,
+  scaleSeries,
+  type SeriesAggregation,
+  type SeriesScale,
+} from "@/utils/series";
+import { DotGridTooltip, useDotGridInspection } from "./DotGridInspection";
+import { COLUMN_STAGGER_DELAY, DOT_PITCH, DOT_SPACING, LoaderDot } from "./LoaderDot";
 
 // Grid sizing: 23 columns x 14 rows = 113px x 68px (3px dots + 2px spacing, no scaling needed)
 const GRID_COLUMNS = 23;
 const GRID_ROWS = 14;
+const GRID_DIMENSIONS: GridDimensions = { columns: GRID_COLUMNS, rows: GRID_ROWS };
+
+const DEFAULT_HALFTONE: HalftoneStrategy = { type: "neighbors" };
+
+// Loading wave: one frame per tick, and the morph into the chart reveals one column per tick
+// (the same pace as the column stagger)
+const LOADING_TICK_MS = 60;
+const LOADING_FRAME_COUNT = 40;
+const LOADING_AMPLITUDE = 4;
+const LOADING_FRAMES: StateGrid[] = Array.from({ length: LOADING_FRAME_COUNT }, (_, frame) => {
+  const heights = Array.from({ length: GRID_COLUMNS }, (_, column) => {
+    const phase = 2 * Math.PI * (column / GRID_COLUMNS - frame / LOADING_FRAME_COUNT);
+    return Math.round((GRID_ROWS - 1) / 2 + LOADING_AMPLITUDE * Math.sin(phase));
+  });
+  return createChartStateGrid(heights, GRID_DIMENSIONS, "line", DEFAULT_HALFTONE);
+});
 
 const dotPalette = {
   full: "#1672EB",
   mid: "#D2D3D6",
   empty: "#D9D9D9",
+  highlight: "#0B4DA8",
+  highlightTrack: "#B9D3F8",
 };
 
+// Threshold colors by default: the highest threshold reads as the limit, any below it as warnings
+const LIMIT_COLOR = "#E5484D";
+const WARNING_COLOR = "#F5A524";
+
+// Previous period curve, drawn as mid dots under the current one
+const PREVIOUS_COLOR = "#B4B7BD";
+
+const percentFormat = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+  signDisplay: "exceptZero",
+});
+
+// Matches the "Jan 24 - Feb 24" style of usageRange, in UTC like the day timestamps it labels
+const dateFormat = new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+/**
+ * A plan limit or warning level drawn across the chart
+ */
+interface UsageThreshold {
+  value: number; // In `series` units, or as a usage level (0..1) for the synthetic curve
+  label?: string; // E.g. "limit" or "80% warning"
+  color?: string; // Line and over-threshold dot color (default red for the highest, amber otherwise)
+}
+
+/**
+ * The previous billing period, drawn under the current one
+ */
+interface PreviousPeriod {
+  amount?: number; // Previous total, compared with `usageAmount` for the change badge
+  series?: number[]; // Previous values, resampled and scaled together with `series`
+  timestamps?: (number | Date)[]; // Optional sample times for the previous `series`
+  usageLevel?: number; // Synthetic fallback curve when the card has no `series`
+  usageTrend?: number;
+}
+
+/**
+ * One series of a breakdown, e.g. usage per actor or compute versus storage
+ */
+interface BreakdownSeries {
+  label: string; // Legend and tooltip name
+  series: number[];
+  timestamps?: (number | Date)[];
+  color: string; // Full dot color
+  halftoneColor?: string; // Halftone dot color (default: `color` faded toward white)
+  halftone?: HalftoneStrategy; // Default: the card's `halftone`
+  priority?: number; // Higher wins overlapping dots, ties go to the earlier series (default 0)
+}
+
+/**
+ * One curve on the grid, with the colors its dots are drawn in
+ */
+interface ChartLayer {
+  heights: number[];
+  halftone: HalftoneStrategy;
+  priority: number;
+  color?: string; // Full dots, card palette when unset
+  halftoneColor?: string; // Halftone dots, card palette when unset
+}
+
+/**
+ * A threshold resolved to a grid row
+ */
+interface ThresholdLine {
+  row: number;
+  color: string;
+  label?: string;
+}
+
+/**
+ * What one grid column stands for, shown while inspecting it
+ */
+interface ColumnDetail {
+  label: string; // Date or sample range behind the column
+  value?: number; // Aggregated value, unknown for the synthetic curve
+  previousValue?: number; // Same column in the previous period
+  breakdown?: { label: string; color: string; value: number }[]; // Breakdown series values
+}
+
 interface ActorsRunCardProps {
   label: string;
   usageAmount: number;
@@ -25,13 +131,24 @@ interface ActorsRunCardProps {
   usageLevel: number;
   usageTrend?: number;
   staggerAnimation?: boolean; // Enable column-by-column fade in
-  format?: "currency" | "storage" | "decimal"; // Display format
+  loading?: boolean; // Data is on its way: animate a wave and hide the amount, then morph into the chart
+  format?: ValueFormat; // Display format: a preset or an Intl-based formatter configuration
+  halftone?: HalftoneStrategy; // Halftone applied around the usage line (line, step and scatter charts)
+  chart?: ChartMode; // How the usage is drawn (default "line")
+  seed?: number; // Jitter seed, derived from the card's data by default
+  series?: number[]; // Real usage values, oldest first - replaces the synthetic curve
+  timestamps?: (number | Date)[]; // Optional sample times for `series`
+  aggregation?: SeriesAggregation; // How samples sharing a column combine (default "average")
+  scale?: SeriesScale; // Vertical scaling of `series` (default "linear")
+  bounds?: { min?: number; max?: number }; // Values drawn at the bottom and top rows
+  thresholds?: (number | UsageThreshold)[]; // Dotted limit lines; the curve above them is recolored
+  previous?: PreviousPeriod; // Comparison period: a secondary curve and a % change badge
+  breakdown?: BreakdownSeries[]; // Extra series in their own colors, with a legend; replaces the synthetic curve
 }
 
-function createUsagePositions(usageLevel: number, usageTrend: number): Position[] {
+function createUsageHeights(usageLevel: number, usageTrend: number, random: () => number): number[] {
   const clamped = Math.max(0, Math.min(1, usageLevel));
   const trend = Math.max(-1, Math.min(1, usageTrend));
-  const positions: Position[] = [];
   const heights: number[] = [];
   const maxHeight = GRID_ROWS - 1;
   const baseHeights = Array.from({ length: GRID_COLUMNS }, (_, column) => {
@@ -50,7 +167,7 @@ function createUsagePositions(usageLevel: number, usageTrend: number): Position[
   let current = baseHeights[0] ?? 0;
 
   for (let column = 0; column < GRID_COLUMNS; column++) {
-    const delta = Math.floor(Math.random() * (jitter * 2 + 1)) - jitter;
+    const delta = Math.floor(random() * (jitter * 2 + 1)) - jitter;
     const target = Math.min(
       maxHeight,
       Math.max(0, baseHeights[column] + delta)
@@ -60,65 +177,190 @@ function createUsagePositions(usageLevel: number, usageTrend: number): Position[
     heights.push(current);
   }
 
-  const smoothed = heights.map((value, index) => {
+  return heights.map((value, index) => {
     const prev = heights[Math.max(0, index - 1)];
     const next = heights[Math.min(heights.length - 1, index + 1)];
     return Math.round((prev + value * 1.5 + next) / 3.5);
   });
+}
 
-  // Create positions and ensure connectivity by filling vertical gaps
-  for (let column = 0; column < GRID_COLUMNS; column++) {
-    const height = smoothed[column] ?? 0;
-    const y = maxHeight - height;
-    positions.push({ x: column, y });
-    
-    // Check if we need to fill vertical gap to connect to next column
-    if (column < GRID_COLUMNS - 1) {
-      const nextHeight = smoothed[column + 1] ?? 0;
-      const nextY = maxHeight - nextHeight;
-      const yDiff = nextY - y;
-      
-      // If vertical jump is more than 1, fill in the gap at current column
-      if (Math.abs(yDiff) > 1) {
-        const steps = Math.abs(yDiff) - 1;
-        const yDir = yDiff > 0 ? 1 : -1;
-        
-        for (let step = 1; step <= steps; step++) {
-          positions.push({ x: column, y: y + (yDir * step) });
+/**
+ * Resamples each series into one value and one height (in rows) per column.
+ * Every series, the previous period and the thresholds share the same scale, so they
+ * stay comparable and a limit above the data still fits on the grid.
+ */
+function createSeriesColumns(
+  layers: { series: number[]; timestamps?: (number | Date)[] }[],
+  aggregation: SeriesAggregation,
+  scale: SeriesScale,
+  bounds: { min?: number; max?: number },
+  thresholdValues: number[],
+  previous: PreviousPeriod | undefined
+): {
+  values: number[][];
+  heights: number[][];
+  previousValues: number[] | null;
+  previousHeights: number[] | null;
+  thresholdHeights: number[];
+} {
+  const values = layers.map(({ series, timestamps }) =>
+    resampleSeries(series, GRID_COLUMNS, { aggregation, timestamps })
+  );
+  const previousValues =
+    previous?.series && previous.series.length > 0
+      ? resampleSeries(previous.series, GRID_COLUMNS, { aggregation, timestamps: previous.timestamps })
+      : [];
+  const heights = scaleSeries([...values.flat(), ...previousValues, ...thresholdValues], { scale, ...bounds }).map(
+    (level) => Math.round(level * (GRID_ROWS - 1))
+  );
+  const previousOffset = values.length * GRID_COLUMNS;
+  const hasPrevious = previousValues.length > 0;
+
+  return {
+    values,
+    heights: values.map((_, index) => heights.slice(index * GRID_COLUMNS, (index + 1) * GRID_COLUMNS)),
+    previousValues: hasPrevious ? previousValues : null,
+    previousHeights: hasPrevious ? heights.slice(previousOffset, previousOffset + GRID_COLUMNS) : null,
+    thresholdHeights: heights.slice(previousOffset + previousValues.length),
+  };
+}
+
+/**
+ * Draws every layer into one grid. Full dots beat halftone dots; among dots of the same
+ * state the higher priority wins, then the earlier layer. Colors of layers with their own
+ * palette go into `dotColors`, and `owners` records which layer each dot belongs to.
+ */
+function composeLayers(
+  layers: ChartLayer[],
+  chart: ChartMode,
+  dotColors: Map<string, string>
+): { dotStates: StateGrid; owners: Int8Array } {
+  const ordered = layers
+    .map((layer, index) => ({
+      layer,
+      index,
+      grid: createChartStateGrid(layer.heights, GRID_DIMENSIONS, chart, layer.halftone),
+    }))
+    .sort((a, b) => b.layer.priority - a.layer.priority || a.index - b.index);
+  const dotStates = createStateGrid(GRID_DIMENSIONS);
+  const owners = new Int8Array(GRID_COLUMNS * GRID_ROWS).fill(-1);
+
+  (["full", "mid"] as const).forEach((state) => {
+    ordered.forEach(({ layer, index, grid }) => {
+      const color = state === "full" ? layer.color : layer.halftoneColor;
+      for (let y = 0; y < GRID_ROWS; y++) {
+        for (let x = 0; x < GRID_COLUMNS; x++) {
+          if (getCellState(grid, x, y) !== state || getCellState(dotStates, x, y) !== "empty") continue;
+          setCellState(dotStates, x, y, state);
+          owners[y * GRID_COLUMNS + x] = index;
+          if (color) dotColors.set(`${x},${y}`, color);
         }
       }
-    }
-  }
+    });
+  });
 
-  return positions;
+  return { dotStates, owners };
 }
 
-function buildStateMap(positions: Position[], columns: number, rows: number) {
-  const states = new Map<string, DotState>();
-  const fullSet = new Set(positions.map((pos) => `${pos.x},${pos.y}`));
+/**
+ * Change from the previous period: the amounts when both are known, otherwise the series totals
+ */
+function getPeriodChange(usageAmount: number, series: number[] | undefined, previous: PreviousPeriod): number | null {
+  const sum = (values: number[]) => values.reduce((total, value) => total + (Number.isFinite(value) ? value : 0), 0);
+  const [current, before] =
+    previous.amount !== undefined
+      ? [usageAmount, previous.amount]
+      : series && previous.series
+        ? [sum(series), sum(previous.series)]
+        : [NaN, NaN];
+  if (!Number.isFinite(current) || !Number.isFinite(before) || before === 0) return null;
+  return (current - before) / Math.abs(before);
+}
 
-  positions.forEach(({ x, y }) => {
-    if (x >= 0 && x < columns && y >= 0 && y < rows) {
-      states.set(`${x},${y}`, "full");
-    }
+/**
+ * Draws the previous period's curve as mid dots wherever the current chart left the grid empty
+ */
+function applyPreviousPeriod(dotStates: StateGrid, previousHeights: number[], dotColors: Map<string, string>) {
+  chartPositions(previousHeights, GRID_DIMENSIONS, "line").forEach(({ x, y }) => {
+    if (getCellState(dotStates, x, y) !== "empty") return;
+    setCellState(dotStates, x, y, "mid");
+    dotColors.set(`${x},${y}`, PREVIOUS_COLOR);
   });
+}
 
-  positions.forEach(({ x, y }) => {
-    for (let dx = -1; dx <= 1; dx++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        if (dx === 0 && dy === 0) continue;
-        const nx = x + dx;
-        const ny = y + dy;
-        if (nx < 0 || nx >= columns || ny < 0 || ny >= rows) continue;
-        const key = `${nx},${ny}`;
-        if (!fullSet.has(key)) {
-          states.set(key, "mid");
+/**
+ * Resolves thresholds to rows and colors, lowest first
+ */
+function createThresholdLines(thresholds: UsageThreshold[], thresholdHeights: number[]): ThresholdLine[] {
+  const highest = Math.max(...thresholds.map(({ value }) => value));
+  return thresholds
+    .map((threshold, index) => ({
+      row: GRID_ROWS - 1 - thresholdHeights[index],
+      color: threshold.color ?? (threshold.value === highest ? LIMIT_COLOR : WARNING_COLOR),
+      label: threshold.label,
+    }))
+    .sort((a, b) => b.row - a.row);
+}
+
+/**
+ * Draws the dotted threshold lines into the chart and recolors the curve above them
+ * (only dots that `canRecolor` allows, so breakdown series keep their own colors)
+ */
+function applyThresholdLines(
+  dotStates: StateGrid,
+  lines: ThresholdLine[],
+  dotColors: Map<string, string>,
+  canRecolor: (x: number, y: number) => boolean
+) {
+  // Lines go from lowest to highest, so dots above several thresholds end up in the highest one's color
+  lines.forEach(({ row, color }) => {
+    for (let column = 0; column < GRID_COLUMNS; column++) {
+      for (let y = 0; y < row; y++) {
+        if (getCellState(dotStates, column, y) === "full" && canRecolor(column, y)) {
+          dotColors.set(`${column},${y}`, color);
         }
       }
     }
   });
 
-  return states;
+  lines.forEach(({ row, color }) => {
+    for (let column = 0; column < GRID_COLUMNS; column += 2) {
+      if (getCellState(dotStates, column, row) === "full") continue;
+      setCellState(dotStates, column, row, "mid");
+      dotColors.set(`${column},${row}`, color);
+    }
+  });
+}
+
+/**
+ * Labels each column with the dates (or sample numbers) it covers
+ */
+function describeSeriesColumns(
+  { series, timestamps }: { series: number[]; timestamps?: (number | Date)[] },
+  values: number[] | undefined,
+  previousValues: number[] | null,
+  breakdown: { label: string; color: string; values: number[] }[]
+): ColumnDetail[] {
+  return columnSpans(series, GRID_COLUMNS, timestamps).map(({ start, end }, column) => {
+    const detail = {
+      value: values?.[column],
+      previousValue: previousValues?.[column],
+      breakdown:
+        breakdown.length > 0
+          ? breakdown.map(({ label, color, values }) => ({ label, color, value: values[column] }))
+          : undefined,
+    };
+    if (timestamps) {
+      const from = dateFormat.format(start);
+      const to = dateFormat.format(end);
+      return { ...detail, label: from === to ? from : `${from} - ${to}` };
+    }
+
+    // Spans are end-exclusive, except for the last column which holds the final sample
+    const first = Math.ceil(start) + 1;
+    const last = column === GRID_COLUMNS - 1 || start === end ? Math.floor(end) + 1 : Math.ceil(end);
+    return { ...detail, label: last > first ? `Samples ${first}-${last}` : `Sample ${Math.round(start) + 1}` };
+  });
 }
 
 export function ActorsRunCard({
@@ -128,45 +370,157 @@ export function ActorsRunCard({
   usageLevel,
   usageTrend = 0,
   staggerAnimation = false,
+  loading = false,
   format = "currency",
+  halftone = DEFAULT_HALFTONE,
+  chart = "line",
+  seed,
+  series,
+  timestamps,
+  aggregation = "average",
+  scale = "linear",
+  bounds = {},
+  thresholds = [],
+  previous,
+  breakdown = [],
 }: ActorsRunCardProps) {
-  const dotStates = buildStateMap(
-    createUsagePositions(usageLevel, usageTrend),
-    GRID_COLUMNS,
-    GRID_ROWS
+  const usageThresholds = thresholds.map((threshold) =>
+    typeof threshold === "number" ? { value: threshold } : threshold
   );
+  const thresholdValues = usageThresholds.map(({ value }) => value);
 
-  const formatValue = (value: number): string => {
-    switch (format) {
-      case "currency":
-        return `$${value.toFixed(2)}`;
-      case "storage":
-        if (value >= 1000) {
-          return `${(value / 1000).toFixed(2)} GB`;
-        }
-        return `${value.toFixed(0)} MB`;
-      case "decimal":
-        return value.toFixed(3);
-      default:
-        return value.toString();
-    }
-  };
+  // Real data wins; the synthetic curve is only a fallback. The card's own series (or the
+  // synthetic curve) is the primary layer, drawn in the card palette ahead of any breakdown.
+  const hasSeries = !!series && series.length > 0;
+  const hasPrimary = hasSeries || breakdown.length === 0;
+  const seriesLayers = [...(hasSeries ? [{ series, timestamps }] : []), ...breakdown];
+  const seriesColumns =
+    seriesLayers.length > 0
+      ? createSeriesColumns(seriesLayers, aggregation, scale, bounds, thresholdValues, previous)
+      : null;
+
+  // Same inputs, same curve - keeps server and client renders in sync
+  const random = createRandom(seed ?? hashSeed(`${label}|${usageAmount}|${usageRange}|${usageLevel}|${usageTrend}`));
+  const primaryHeights = hasSeries
+    ? seriesColumns?.heights[0]
+    : hasPrimary
+      ? createUsageHeights(usageLevel, usageTrend, random)
+      : undefined;
+  const breakdownHeights = seriesColumns?.heights.slice(hasSeries ? 1 : 0) ?? [];
+  const layers: ChartLayer[] = [
+    ...(primaryHeights ? [{ heights: primaryHeights, halftone, priority: 0 }] : []),
+    ...breakdown.map((entry, index) => ({
+      heights: breakdownHeights[index],
+      halftone: entry.halftone ?? halftone,
+      priority: entry.priority ?? 0,
+      color: entry.color,
+      halftoneColor: entry.halftoneColor ?? mixColors(entry.color, "#FFFFFF", 0.7),
+    })),
+  ];
+
+  const previousHeights = seriesColumns
+    ? seriesColumns.previousHeights
+    : previous?.usageLevel !== undefined
+      ? createUsageHeights(
+          previous.usageLevel,
+          previous.usageTrend ?? 0,
+          createRandom(hashSeed(`${label}|previous|${previous.usageLevel}|${previous.usageTrend ?? 0}|${seed ?? ""}`))
+        )
+      : null;
+  const periodChange = previous ? getPeriodChange(usageAmount, series, previous) : null;
+  const thresholdHeights =
+    seriesColumns?.thresholdHeights ??
+    thresholdValues.map((value) => Math.round(Math.max(0, Math.min(1, value)) * (GRID_ROWS - 1)));
+  const thresholdLines = createThresholdLines(usageThresholds, thresholdHeights);
+
+  const dotColors = new Map<string, string>();
+  const { dotStates, owners } = composeLayers(layers, chart, dotColors);
+  if (previousHeights) applyPreviousPeriod(dotStates, previousHeights, dotColors);
+  applyThresholdLines(
+    dotStates,
+    thresholdLines,
+    dotColors,
+    (x, y) => hasPrimary && owners[y * GRID_COLUMNS + x] === 0
+  );
+
+  const columnDetails: ColumnDetail[] = seriesColumns
+    ? describeSeriesColumns(
+        seriesLayers[0],
+        hasSeries ? seriesColumns.values[0] : undefined,
+        seriesColumns.previousValues,
+        breakdown.map((entry, index) => ({
+          label: entry.label,
+          color: entry.color,
+          values: seriesColumns.values[index + (hasSeries ? 1 : 0)],
+        }))
+      )
+    : Array.from({ length: GRID_COLUMNS }, () => ({ label: usageRange }));
+  const legend =
+    breakdown.length > 0
+      ? [
+          ...(hasPrimary ? [{ label, color: dotPalette.full }] : []),
+          ...breakdown.map((entry) => ({ label: entry.label, color: entry.color })),
+        ]
+      : [];
+  const layerKey = layers.map((layer) => layer.heights.join(".")).join("|");
+  const gridKey = `${chart}-${usageAmount}-${usageLevel}-${usageTrend}-${seed ?? ""}-${layerKey}-${previousHeights?.join(".") ?? ""}`;
+
+  // The first chart after loading morphs out of the wave instead of staggering in
+  const [previousLoading, setPreviousLoading] = useState(loading);
+  const [morphKey, setMorphKey] = useState<string | null>(null);
+  if (loading !== previousLoading) {
+    setPreviousLoading(loading);
+    setMorphKey(loading ? null : gridKey);
+  }
+
+  const formatValue = useValueFormatter(format);
 
   return (
-    <div className="h-[92px] w-[286px] rounded-[12px] bg-[#f4f4f5] p-[2px]">
+    <div className="h-[92px] w-[286px] rounded-[12px] bg-[#f4f4f5] p-[2px]" aria-busy={loading}>
       <div className="relative h-full w-full rounded-[11px] bg-white">
         <div className="absolute left-3 top-2">
           <p className="text-xs font-medium text-[#6d7178]">{label}</p>
-          <p className="text-xs font-medium text-[#c9cbcf]">{usageRange}</p>
+          <p className="flex items-center gap-1 text-xs font-medium text-[#c9cbcf]">
+            {usageRange}
+            {!loading && periodChange !== null && (
+              <span
+                className="rounded-sm bg-[#f4f4f5] px-1 text-[10px] leading-4 text-[#6d7178]"
+                title="Change from the previous period"
+              >
+                {percentFormat.format(periodChange)}
+              </span>
+            )}
+          </p>
         </div>
-        <p className="absolute left-3 top-9 text-[36px] font-bold leading-[44px] text-[#1f2123]">
-          {formatValue(usageAmount)}
-        </p>
+        {loading ? (
+          <div className="absolute left-3 top-[46px] h-6 w-24 animate-pulse rounded-md bg-[#f4f4f5]" />
+        ) : (
+          <p className="absolute left-3 top-9 text-[36px] font-bold leading-[44px] text-[#1f2123]">
+            {formatValue(usageAmount)}
+          </p>
+        )}
+        {legend.length > 0 && !loading && (
+          <ul className="absolute bottom-[3px] right-3 flex gap-2 text-[9px] font-medium leading-[9px] text-[#6d7178]">
+            {legend.map((entry, index) => (
+              <li key={index} className="flex items-center gap-1">
+                <span className="size-[5px] rounded-full" style={{ backgroundColor: entry.color }} />
+                {entry.label}
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="absolute right-3 top-[10px]">
           <DotGrid 
-            key={`${usageAmount}-${usageLevel}-${usageTrend}`}
+            key={loading ? "loading" : gridKey}
+            label={label}
             dotStates={dotStates} 
+            dotColors={dotColors}
+            thresholdLines={thresholdLines}
+            columnDetails={columnDetails}
+            formatValue={formatValue}
             staggerAnimation={staggerAnimation} 
+            loading={loading}
+            morph={!loading && gridKey === morphKey}
           />
         </div>
       </div>
@@ -174,39 +528,133 @@ export function ActorsRunCard({
   );
 }
 
-function DotGrid({ dotStates, staggerAnimation }: { dotStates: Map<string, DotState>; staggerAnimation: boolean }) {
+interface DotGridProps {
+  label: string;
+  dotStates: StateGrid;
+  dotColors: Map<string, string>; // Per-dot color overrides, keyed by `${x},${y}`
+  thresholdLines: ThresholdLine[];
+  columnDetails: ColumnDetail[];
+  formatValue: (value: number) => string;
+  staggerAnimation: boolean;
+  loading: boolean; // Play the wave instead of the chart
+  morph: boolean; // Reveal the chart column by column over the still running wave
+}
+
+// Shared clock, so the wave picks up where it was when the grid remounts for the morph
+const getLoadingTick = () => Math.floor(Date.now() / LOADING_TICK_MS);
+
+function DotGrid({
+  label,
+  dotStates,
+  dotColors,
+  thresholdLines,
+  columnDetails,
+  formatValue,
+  staggerAnimation,
+  loading,
+  morph,
+}: DotGridProps) {
+  const [tick, setTick] = useState(() => (morph ? getLoadingTick() : 0));
+  const [morphStart] = useState(tick);
+  const revealedColumns = loading ? 0 : morph ? tick - morphStart : GRID_COLUMNS;
+  const animating = revealedColumns < GRID_COLUMNS;
+  const interactive = !animating;
+  const inspection = useDotGridInspection({
+    columns: GRID_COLUMNS,
+    rows: 1,
+    start: { column: GRID_COLUMNS - 1, row: 0 },
+    enabled: interactive,
+  });
+  const inspectedColumn = inspection.inspected?.column ?? null;
+  const inspected = inspectedColumn === null ? null : columnDetails[inspectedColumn];
+
+  useEffect(() => {
+    if (!animating) return;
+    const interval = setInterval(() => setTick(getLoadingTick()), LOADING_TICK_MS);
+    return () => clearInterval(interval);
+  }, [animating]);
+
+  const getState = (column: number, row: number) => {
+    if (column < revealedColumns) return getCellState(dotStates, column, row);
+    return getCellState(LOADING_FRAMES[tick % LOADING_FRAME_COUNT], column, row);
+  };
+
+  const getPalette = (column: number, row: number) => {
+    const color = column < revealedColumns ? dotColors.get(`${column},${row}`) : undefined;
+    // No highlight colors, so an inspected dot is highlighted in a shade of its own color
+    return color ? { full: color, mid: color, empty: dotPalette.empty } : dotPalette;
+  };
+
   return (
-    <div className="overflow-hidden">
-      <div
-        className="flex"
-        style={{
-          gap: `${DOT_SPACING}px`,
-        }}
-      >
-        {Array.from({ length: GRID_COLUMNS }).map((_, column) => (
-          <div
-            key={column}
-            className="flex flex-col"
-            style={{
-              gap: `${DOT_SPACING}px`,
-            }}
-          >
-            {Array.from({ length: GRID_ROWS }).map((_, row) => {
-              const key = `${column},${row}`;
-              const state = dotStates.get(key) ?? "empty";
-              const staggerDelay = staggerAnimation ? column * 0.06 : 0;
-              return (
-                <LoaderDot 
-                  key={key} 
-                  state={state} 
-                  palette={dotPalette}
-                  staggerDelay={staggerDelay}
-                />
-              );
-            })}
-          </div>
-        ))}
+    <div
+      role="group"
+      tabIndex={interactive ? 0 : -1}
+      aria-label={interactive ? `${label} chart, use the arrow keys to inspect columns` : `${label} chart, loading`}
+      aria-describedby={inspected ? inspection.tooltipId : undefined}
+      className="relative cursor-crosshair touch-pan-y rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-[#1672EB]/40"
+      {...inspection.handlers}
+    >
+      <div className="overflow-hidden">
+        <div
+          className="flex"
+          style={{
+            gap: `${DOT_SPACING}px`,
+          }}
+        >
+          {Array.from({ length: GRID_COLUMNS }).map((_, column) => (
+            <div
+              key={column}
+              className="flex flex-col"
+              style={{
+                gap: `${DOT_SPACING}px`,
+              }}
+            >
+              {Array.from({ length: GRID_ROWS }).map((_, row) => {
+                const key = `${column},${row}`;
+                const state = getState(column, row);
+                const staggerDelay = staggerAnimation && !morph && !loading ? column * COLUMN_STAGGER_DELAY : 0;
+                return (
+                  <LoaderDot 
+                    key={key} 
+                    state={state} 
+                    palette={getPalette(column, row)}
+                    staggerDelay={staggerDelay}
+                    highlighted={inspected !== null && column === inspectedColumn}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
       </div>
+      {!animating &&
+        thresholdLines.map(({ row, color, label: lineLabel }) =>
+          lineLabel ? (
+            <span
+              key={`${row}-${lineLabel}`}
+              className="pointer-events-none absolute right-0 rounded-sm bg-white/80 px-0.5 text-[9px] font-medium leading-[9px]"
+              // Above the line, or below it when there's no room at the top
+              style={{ top: row < 2 ? (row + 1) * DOT_PITCH : row * DOT_PITCH - 10, color }}
+            >
+              {lineLabel}
+            </span>
+          ) : null
+        )}
+      {inspected && inspectedColumn !== null && (
+        <DotGridTooltip id={inspection.tooltipId} column={inspectedColumn}>
+          <p className="text-[#c9cbcf]">{inspected.label}</p>
+          {inspected.value !== undefined && <p>{formatValue(inspected.value)}</p>}
+          {inspected.breakdown?.map((entry, index) => (
+            <p key={index} className="flex items-center gap-1">
+              <span className="size-[5px] rounded-full" style={{ backgroundColor: entry.color }} />
+              {entry.label} {formatValue(entry.value)}
+            </p>
+          ))}
+          {inspected.previousValue !== undefined && (
+            <p className="text-[#c9cbcf]">Previous {formatValue(inspected.previousValue)}</p>
+          )}
+        </DotGridTooltip>
+      )}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+"use client";
+
+import { useId, useState, type KeyboardEvent, type PointerEvent, type ReactNode } from "react";
+import { DOT_FULL_SIZE, DOT_PITCH, DOT_SPACING } from "./LoaderDot";
+
+export interface InspectedCell {
+  column: number;
+  row: number;
+}
+
+interface DotGridInspectionOptions {
+  columns: number;
+  rows: number; // 1 inspects whole columns
+  start: InspectedCell; // Where keyboard inspection starts
+  enabled?: boolean; // Ignore input, e.g. while the grid animates (default true)
+}
+
+/**
+ * Hover, touch scrubbing and keyboard inspection of a dot grid. Spread `handlers` on the
+ * element around the dots; `inspected` is null while nothing is inspected or input is off.
+ */
+export function useDotGridInspection({ columns, rows, start, enabled = true }: DotGridInspectionOptions) {
+  const [cell, setCell] = useState<InspectedCell | null>(null);
+  const tooltipId = useId();
+
+  const clampCell = ({ column, row }: InspectedCell): InspectedCell => ({
+    column: Math.max(0, Math.min(columns - 1, column)),
+    row: Math.max(0, Math.min(rows - 1, row)),
+  });
+
+  const cellAt = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return clampCell({
+      column: Math.floor((event.clientX - bounds.left + DOT_SPACING / 2) / DOT_PITCH),
+      row: Math.floor((event.clientY - bounds.top + DOT_SPACING / 2) / DOT_PITCH),
+    });
+  };
+
+  const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    // Touch scrubbing: keep receiving moves while the finger drags past the grid
+    if (event.pointerType === "touch") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    setCell(cellAt(event));
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    if (event.pointerType === "touch" && !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    setCell(cellAt(event));
+  };
+
+  const onPointerEnd = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === "touch" || event.type === "pointerleave") {
+      setCell(null);
+    }
+  };
+
+  // Arrow keys step across columns and rows, Home and End jump to the first and last column
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    if (event.key === "Escape") {
+      event.preventDefault();
+      setCell(null);
+      return;
+    }
+    const { column, row } = cell ?? start;
+    const moves: Record<string, InspectedCell> = {
+      ArrowLeft: { column: column - 1, row },
+      ArrowRight: { column: column + 1, row },
+      // Single-row grids leave up and down to the page
+      ...(rows > 1 && { ArrowUp: { column, row: row - 1 }, ArrowDown: { column, row: row + 1 } }),
+      Home: { column: 0, row },
+      End: { column: columns - 1, row },
+    };
+    const next = moves[event.key];
+    if (!next) return;
+    event.preventDefault();
+    setCell(clampCell(next));
+  };
+
+  return {
+    inspected: enabled ? cell : null,
+    tooltipId,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: onPointerEnd,
+      onPointerCancel: onPointerEnd,
+      onPointerLeave: onPointerEnd,
+      onKeyDown,
+      onFocus: () => enabled && setCell((current) => current ?? start),
+      onBlur: () => setCell(null),
+    },
+  };
+}
+
+interface DotGridTooltipProps {
+  id: string;
+  column: number; // Column the tooltip points at
+  children: ReactNode;
+}
+
+/**
+ * Tooltip above an inspected column, for use inside the `relative` grid element
+ */
+export function DotGridTooltip({ id, column, children }: DotGridTooltipProps) {
+  return (
+    <div
+      id={id}
+      role="tooltip"
+      className="pointer-events-none absolute bottom-full z-10 mb-1 -translate-x-1/2 whitespace-nowrap rounded-md bg-[#1f2123] px-2 py-1 text-[11px] font-medium leading-4 text-white"
+      style={{ left: column * DOT_PITCH + DOT_FULL_SIZE / 2 }}
+    >
+      {children}
+    </div>
+  );
+}
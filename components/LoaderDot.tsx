@@ -1,13 +1,25 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
-import type { DotState } from "@/utils/halftone";
+import { MID_INTENSITY, type DotState } from "@/utils/halftone";
+import { mixColors } from "@/utils/color";
 
 export const DOT_FULL_SIZE = 3;
 export const DOT_MID_SIZE = 2.5;
 export const DOT_EMPTY_SIZE = 1.5;
 export const DOT_SPACING = 2;
 
+// Distance between neighboring dot centers, across and down
+export const DOT_PITCH = DOT_FULL_SIZE + DOT_SPACING;
+
+// Entrance delay per column for column-by-column stagger, in seconds
+export const COLUMN_STAGGER_DELAY = 0.06;
+
+// Without explicit highlight colors, a dot's own color is darkened (dots) or lightened (track)
+const HIGHLIGHT_SHADE = 0.3;
+const HIGHLIGHT_TRACK_TINT = 0.7;
+
 const DEFAULT_PALETTE = {
   full: "#1F2123",
   mid: "#D2D3D6",
@@ -20,11 +32,24 @@ interface LoaderDotProps {
     full: string;
     mid: string;
     empty: string;
+    highlight?: string; // Highlighted full and mid dots (default: full, darkened)
+    highlightTrack?: string; // Highlighted empty dots (default: full, lightened)
   };
+  intensity?: number; // Continuous 0..1 level, overrides state styling when set
   staggerDelay?: number; // Delay in seconds for stagger animation
+  highlighted?: boolean; // Inspected dot, drawn in the highlight colors
 }
 
-export function LoaderDot({ state, palette = DEFAULT_PALETTE, staggerDelay = 0 }: LoaderDotProps) {
+export function LoaderDot({
+  state,
+  palette = DEFAULT_PALETTE,
+  intensity,
+  staggerDelay = 0,
+  highlighted = false,
+}: LoaderDotProps) {
+  // The stagger only delays the entrance, later changes such as highlighting apply right away
+  const [entered, setEntered] = useState(false);
+
   const getStyles = (dotState: DotState) => {
     switch (dotState) {
       case "full":
@@ -48,11 +73,49 @@ export function LoaderDot({ state, palette = DEFAULT_PALETTE, staggerDelay = 0 }
     }
   };
 
+  // Interpolate empty -> mid -> full, with MID_INTENSITY landing exactly on mid
+  const getIntensityStyles = (level: number) => {
+    const clamped = Math.max(0, Math.min(1, level));
+    const [from, to, t] =
+      clamped <= MID_INTENSITY
+        ? [getStyles("empty"), getStyles("mid"), clamped / MID_INTENSITY]
+        : [getStyles("mid"), getStyles("full"), (clamped - MID_INTENSITY) / (1 - MID_INTENSITY)];
+    const size = from.width + (to.width - from.width) * t;
+
+    return {
+      width: size,
+      height: size,
+      backgroundColor: mixColors(from.backgroundColor, to.backgroundColor, t),
+    };
+  };
+
+  // Highlighted dots keep their size but switch to the highlight colors; empty ones grow to mid.
+  // Dots colored per series derive both from their own color, so they stay recognizable.
+  const getHighlightStyles = (dotState: DotState) => {
+    if (dotState === "empty") {
+      return {
+        ...getStyles("mid"),
+        backgroundColor: palette.highlightTrack ?? mixColors(palette.full, "#FFFFFF", HIGHLIGHT_TRACK_TINT),
+      };
+    }
+    return {
+      ...getStyles(dotState),
+      backgroundColor: palette.highlight ?? mixColors(palette.full, "#000000", HIGHLIGHT_SHADE),
+    };
+  };
+
   const emptyStyles = getStyles("empty");
-  const targetStyles = getStyles(state);
+  const targetStyles = highlighted
+    ? getHighlightStyles(state)
+    : intensity !== undefined
+      ? getIntensityStyles(intensity)
+      : getStyles(state);
   
   // Only stagger full and mid states - they start as empty and transition
-  const shouldStagger = staggerDelay > 0 && (state === "full" || state === "mid");
+  const shouldStagger =
+    !entered &&
+    staggerDelay > 0 &&
+    (intensity !== undefined ? intensity > 0 : state === "full" || state === "mid");
 
   return (
     <div
@@ -74,6 +137,7 @@ export function LoaderDot({ state, palette = DEFAULT_PALETTE, staggerDelay = 0 }
           duration: 0,
           delay: shouldStagger ? staggerDelay : 0,
         }}
+        onAnimationComplete={() => setEntered(true)}
       />
     </div>
   );
@@ -1,9 +1,19 @@
 "use client";
 
-import { useEffect, useState, useRef, useMemo, memo } from "react";
+import { useEffect, useState, useRef, memo } from "react";
 import { Slider } from "./ui/slider";
 import { ActorsRunCard } from "./ActorsRunCard";
-import { generateHalftoneStates, HalftoneStrategy, type Position as HalftonePosition, type DotState as HalftoneDotState } from "@/utils/halftone";
+import { ActivityHeatmapCard } from "./ActivityHeatmapCard";
+import { generateHalftoneIntensities, generateHalftoneStateGrid, getHalftoneHistoryLength, getHalftoneStrategyKey, quantizeIntensities, HalftoneStrategy, type Position as HalftonePosition, type DotState as HalftoneDotState, type DotIntensityMap, type GridDimensions } from "@/utils/halftone";
+import { bitGridFromPositions, getCellState, hasCell, stateGridFromBitGrids, stateGridFromMap, type StateGrid } from "@/utils/dotGrid";
+import { ditherToStates } from "@/utils/dither";
+import { createMarquee, FONT_3X5 } from "@/utils/font";
+import { rasterizeShapes } from "@/utils/raster";
+import { createRotationFrames, flipHorizontal, reverseFrames, rotateQuarter } from "@/utils/transform";
+import { createTween } from "@/utils/tween";
+import { automatonPath, automatonStates, generateAutomatonFrames } from "@/utils/automaton";
+import { generateNoiseFrames, noisePath, noiseStates } from "@/utils/noise";
+import { createRandom } from "@/utils/random";
 import { DOT_SPACING, LoaderDot } from "./LoaderDot";
 
 type DotState = HalftoneDotState;
@@ -15,10 +25,20 @@ interface Position {
 
 interface GridDot {
   state: DotState;
+  intensity?: number;
+}
+
+interface HalftoneFrame {
+  states: StateGrid;
+  intensities: DotIntensityMap | null; // Only kept for continuous rendering
 }
 
 const GRID_SIZE = 5;
+const GRID_DIMENSIONS: GridDimensions = { columns: GRID_SIZE, rows: GRID_SIZE };
+const WRAPPED_GRID_DIMENSIONS: GridDimensions = { ...GRID_DIMENSIONS, wrap: true };
+const TRAIL_HISTORY_LIMIT = 30; // Long enough for gradually fading comet tails
 const MINI_GRID_SIZE = 3;
+const MINI_GRID_DIMENSIONS: GridDimensions = { columns: MINI_GRID_SIZE, rows: MINI_GRID_SIZE };
 const MINI_DOT_SIZE = 4;
 const MINI_DOT_SPACING = 0;
 interface LoaderProps {
@@ -28,9 +48,12 @@ interface LoaderProps {
   animationPath?: Position[][];
   speed?: number;
   customStates?: Map<string, DotState>;
+  animationStates?: Map<string, DotState>[]; // Per-frame custom states, aligned with animationPath
+  wrap?: boolean; // Positions and halftones wrap around the edges like a torus
   halftone?: {
     strategy: HalftoneStrategy;
     enabled?: boolean; // Default true if halftone provided
+    continuous?: boolean; // Render per-dot intensity instead of the tri-state view
   };
 }
 
@@ -42,11 +65,12 @@ const ACTORS_RUN_RANGES = [
   "May 24 - Jun 24",
 ];
 
-function createMockActorsRunData() {
-  const amount = Math.round(Math.random() * 12000) / 100;
-  const range = ACTORS_RUN_RANGES[Math.floor(Math.random() * ACTORS_RUN_RANGES.length)];
+function createMockActorsRunData(seed?: number) {
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  const amount = Math.round(random() * 12000) / 100;
+  const range = ACTORS_RUN_RANGES[Math.floor(random() * ACTORS_RUN_RANGES.length)];
   const level = Math.min(1, Math.max(0, amount / 120));
-  let trend = Math.random() * 2 - 1;
+  let trend = random() * 2 - 1;
   if (level < 0.35) {
     trend -= (0.35 - level) * 1.5;
   }
@@ -54,11 +78,12 @@ function createMockActorsRunData() {
   return { amount, range, level, trend };
 }
 
-function createMockComputeUnitsData() {
-  const amount = Math.round(Math.random() * 9000) / 1000000; // 0 to 0.009
-  const range = ACTORS_RUN_RANGES[Math.floor(Math.random() * ACTORS_RUN_RANGES.length)];
+function createMockComputeUnitsData(seed?: number) {
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  const amount = Math.round(random() * 9000) / 1000000; // 0 to 0.009
+  const range = ACTORS_RUN_RANGES[Math.floor(random() * ACTORS_RUN_RANGES.length)];
   const level = amount / 0.009; // Normalize to 0-1
-  let trend = Math.random() * 2 - 1;
+  let trend = random() * 2 - 1;
   if (level < 0.35) {
     trend -= (0.35 - level) * 1.5;
   }
@@ -66,19 +91,63 @@ function createMockComputeUnitsData() {
   return { amount, range, level, trend };
 }
 
-function createMockStorageData() {
-  const amount = Math.round(Math.random() * 5000); // 0 to 5000 MB (0-5 GB)
-  const range = ACTORS_RUN_RANGES[Math.floor(Math.random() * ACTORS_RUN_RANGES.length)];
+function createMockStorageData(seed?: number) {
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  const amount = Math.round(random() * 5000); // 0 to 5000 MB (0-5 GB)
+  const range = ACTORS_RUN_RANGES[Math.floor(random() * ACTORS_RUN_RANGES.length)];
   const level = Math.min(1, Math.max(0, amount / 5000));
-  let trend = Math.random() * 2 - 1;
+  let trend = random() * 2 - 1;
   if (level < 0.35) {
     trend -= (0.35 - level) * 1.5;
   }
   trend = Math.max(-1, Math.min(1, trend));
-  return { amount, range, level, trend };
+  // Daily samples that grow unevenly toward the current amount
+  const growth = Array.from({ length: 60 }, () => random());
+  const total = growth.reduce((sum, value) => sum + value, 0) || 1;
+  let stored = 0;
+  const series = growth.map((value) => (stored += (value / total) * amount));
+  // The previous period grew at a similar pace to a slightly different total
+  const previousAmount = amount * (0.7 + random() * 0.5);
+  const previousSeries = series.map((value) => (value / (amount || 1)) * previousAmount);
+  return { amount, range, level, trend, series, previousAmount, previousSeries };
+}
+
+// Daily spend that drifts around a base level, for the breakdown card
+function createMockActorSeries(seed: number, base: number) {
+  const random = createRandom(seed);
+  let level = base;
+  return Array.from({ length: 30 }, () => {
+    level = Math.max(0, level + (random() - 0.45) * base * 0.3);
+    return Math.round(level * 100) / 100;
+  });
 }
 
-const Loader = memo(function Loader({ shape, title, animated = false, animationPath, speed = 400, customStates, halftone }: LoaderProps) {
+const actorBreakdown = [
+  { label: "Scraper", color: "#1672EB", series: createMockActorSeries(11, 4) },
+  { label: "Crawler", color: "#8E4EC6", series: createMockActorSeries(12, 2.5) },
+  { label: "Monitor", color: "#12A594", series: createMockActorSeries(13, 1) },
+];
+const actorBreakdownTotal = actorBreakdown.reduce(
+  (total, { series }) => total + series.reduce((sum, value) => sum + value, 0),
+  0
+);
+
+// Daily runs up to a fixed day, busier on weekdays with the odd idle day
+function createMockActivity(seed: number, count: number) {
+  const random = createRandom(seed);
+  const end = Date.UTC(2025, 1, 24);
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(end - (count - 1 - index) * 24 * 60 * 60 * 1000);
+    const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    const value = random() < 0.15 ? 0 : Math.round(random() * (weekend ? 8 : 40));
+    return { date, value };
+  });
+}
+
+const yearActivity = createMockActivity(21, 182);
+const monthActivity = createMockActivity(22, 30);
+
+const Loader = memo(function Loader({ shape, title, animated = false, animationPath, speed = 400, customStates, animationStates, halftone, wrap = false }: LoaderProps) {
   const [grid, setGrid] = useState<GridDot[][]>(
     Array(GRID_SIZE)
       .fill(null)
@@ -90,17 +159,16 @@ const Loader = memo(function Loader({ shape, title, animated = false, animationP
   );
   const [currentShapeIndex, setCurrentShapeIndex] = useState(0);
 
-  // Frame history for trail strategy - use ref to avoid dependency cycles
+  // Previous frames for trail strategy, most recent first - use ref to avoid dependency cycles
   const frameHistoryRef = useRef<Position[][]>([]);
 
   // Halftone cache - use Map for better performance
-  const halftoneCache = useRef<Map<string, Map<string, DotState>>>(new Map());
+  const halftoneCache = useRef<Map<string, HalftoneFrame>>(new Map());
 
-  // Memoize halftone strategy key to avoid JSON.stringify on every render
-  const halftoneKey = useMemo(() => {
-    if (!halftone) return null;
-    return `${halftone.strategy.type}-${JSON.stringify(halftone.strategy)}`;
-  }, [halftone]);
+  // Read on every render, so re-registering a custom strategy under the same name
+  // changes the key (and the cached frames) even when the `halftone` prop stays the same
+  const strategyKey = halftone ? getHalftoneStrategyKey(halftone.strategy) : null;
+  const halftoneKey = halftone?.continuous ? `continuous-${strategyKey}` : strategyKey;
 
   const getNeighbors = (x: number, y: number): Position[] => {
     const neighbors: Position[] = [];
@@ -125,33 +193,45 @@ const Loader = memo(function Loader({ shape, title, animated = false, animationP
       return;
     }
 
-    // Update frame history for trail strategy using ref
-    if (halftone?.strategy.type === "trail") {
-      const maxLength = Math.min(halftone.strategy.length, 10); // Cap at 10 frames max
-      const newHistory = [currentShape, ...frameHistoryRef.current];
-      frameHistoryRef.current = newHistory.slice(0, maxLength);
-    }
-
-    let finalStates: Map<string, DotState>;
+    const dimensions = wrap ? WRAPPED_GRID_DIMENSIONS : GRID_DIMENSIONS;
+    let finalStates: StateGrid;
+    let finalIntensities: DotIntensityMap | null = null;
+    const frameStates = animated && animationStates ? animationStates[currentShapeIndex] : customStates;
 
-    // Priority 1: Custom states (for static halftone showcase)
-    if (customStates) {
-      finalStates = customStates;
+    // Priority 1: Custom states (static halftone showcase, or per frame)
+    if (frameStates) {
+      finalStates = stateGridFromMap(frameStates, dimensions);
     }
     // Priority 2: Halftone strategy
     else if (halftone && halftone.enabled !== false && halftoneKey) {
-      const cacheKey = `${currentShapeIndex}-${halftoneKey}`;
-
-      if (halftoneCache.current.has(cacheKey)) {
-        finalStates = halftoneCache.current.get(cacheKey)!;
-      } else {
-        finalStates = generateHalftoneStates(
-          currentShape,
-          halftone.strategy,
-          GRID_SIZE,
-          frameHistoryRef.current // For trail strategy
-        );
-        halftoneCache.current.set(cacheKey, finalStates);
+      // History length is part of the key so frames rendered before the trail filled up aren't reused
+      const cacheKey = `${currentShapeIndex}-${frameHistoryRef.current.length}-${wrap ? "wrap-" : ""}${halftoneKey}`;
+
+      let frame = halftoneCache.current.get(cacheKey);
+
+      if (!frame) {
+        if (halftone.continuous) {
+          const intensities = generateHalftoneIntensities(
+            currentShape,
+            halftone.strategy,
+            dimensions,
+            frameHistoryRef.current // For trail strategy
+          );
+          frame = {
+            states: stateGridFromMap(quantizeIntensities(intensities), dimensions),
+            intensities,
+          };
+        } else {
+          frame = {
+            states: generateHalftoneStateGrid(
+              bitGridFromPositions(currentShape, dimensions),
+              halftone.strategy,
+              frameHistoryRef.current // For trail strategy
+            ),
+            intensities: null,
+          };
+        }
+        halftoneCache.current.set(cacheKey, frame);
 
         // Limit cache size to prevent memory leaks
         if (halftoneCache.current.size > 100) {
@@ -161,31 +241,33 @@ const Loader = memo(function Loader({ shape, title, animated = false, animationP
           }
         }
       }
+
+      finalStates = frame.states;
+      finalIntensities = frame.intensities;
     }
     // Priority 3: Default (only full dots)
     else {
-      finalStates = new Map();
-      currentShape.forEach(({ x, y }) => {
-        if (x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE) {
-          finalStates.set(`${x},${y}`, "full");
-        }
-      });
+      finalStates = stateGridFromBitGrids(bitGridFromPositions(currentShape, dimensions));
     }
 
-    // Build grid from final states
-    const newGrid = Array(GRID_SIZE)
-      .fill(null)
-      .map(() => Array(GRID_SIZE).fill(null).map(() => ({ state: "empty" as DotState })));
+    // Record this frame for the next one's trail
+    const historyLength = halftone ? getHalftoneHistoryLength(halftone.strategy) : 0;
+    if (historyLength > 0) {
+      const maxLength = Math.min(historyLength, TRAIL_HISTORY_LIMIT);
+      const newHistory = [currentShape, ...frameHistoryRef.current];
+      frameHistoryRef.current = newHistory.slice(0, maxLength);
+    }
 
-    finalStates.forEach((state, key) => {
-      const [x, y] = key.split(",").map(Number);
-      if (y >= 0 && y < GRID_SIZE && x >= 0 && x < GRID_SIZE) {
-        newGrid[y][x].state = state;
-      }
-    });
+    // Build grid from final states
+    const newGrid = Array.from({ length: GRID_SIZE }, (_, y) =>
+      Array.from({ length: GRID_SIZE }, (_, x): GridDot => ({
+        state: getCellState(finalStates, x, y),
+        intensity: finalIntensities?.get(`${x},${y}`),
+      }))
+    );
 
     setGrid(newGrid);
-  }, [shape, animated, animationPath, currentShapeIndex, customStates, halftone, halftoneKey]);
+  }, [shape, animated, animationPath, currentShapeIndex, customStates, animationStates, halftone, halftoneKey, wrap]);
 
   useEffect(() => {
     if (animated && animationPath) {
@@ -208,7 +290,7 @@ const Loader = memo(function Loader({ shape, title, animated = false, animationP
       >
         {grid.map((row, y) =>
           row.map((dot, x) => (
-            <LoaderDot key={`${x}-${y}`} state={dot.state} />
+            <LoaderDot key={`${x}-${y}`} state={dot.state} intensity={dot.intensity} />
           ))
         )}
       </div>
@@ -263,8 +345,8 @@ const MiniLoader = memo(function MiniLoader({
   }, [animationPath, speed]);
 
   const currentPositions = animationPath[currentShapeIndex] ?? [];
-  const currentSet = new Set(currentPositions.map((pos) => `${pos.x},${pos.y}`));
-  const previousFiltered = previousPositions.filter((pos) => !currentSet.has(`${pos.x},${pos.y}`));
+  const currentGrid = bitGridFromPositions(currentPositions, MINI_GRID_DIMENSIONS);
+  const previousFiltered = previousPositions.filter((pos) => !hasCell(currentGrid, pos.x, pos.y));
 
   const getActivePositions = (positions: Position[]): Position[] =>
     positions.filter(
@@ -436,7 +518,7 @@ const MiniLoader = memo(function MiniLoader({
           Array.from({ length: MINI_GRID_SIZE }).map((_, x) => (
             <MiniLoaderDot
               key={`${theme}-${x}-${y}`}
-              isActive={currentSet.has(`${x},${y}`)}
+              isActive={hasCell(currentGrid, x, y)}
               theme={theme}
               lightColor={lightColor}
               darkColor={darkColor}
@@ -615,52 +697,25 @@ function MiniLoaderDot({
   );
 }
 
+// Canonical arrow - the other directions are derived from it
+const arrowRight: Position[] = [
+  { x: 2, y: 0 },
+  { x: 3, y: 1 },
+  { x: 0, y: 2 },
+  { x: 1, y: 2 },
+  { x: 2, y: 2 },
+  { x: 3, y: 2 },
+  { x: 4, y: 2 },
+  { x: 3, y: 3 },
+  { x: 2, y: 4 },
+];
+
 // Shape definitions
 const shapes = {
-  arrowRight: [
-    { x: 2, y: 0 },
-    { x: 3, y: 1 },
-    { x: 0, y: 2 },
-    { x: 1, y: 2 },
-    { x: 2, y: 2 },
-    { x: 3, y: 2 },
-    { x: 4, y: 2 },
-    { x: 3, y: 3 },
-    { x: 2, y: 4 },
-  ],
-  arrowLeft: [
-    { x: 2, y: 0 },
-    { x: 1, y: 1 },
-    { x: 0, y: 2 },
-    { x: 1, y: 2 },
-    { x: 2, y: 2 },
-    { x: 3, y: 2 },
-    { x: 4, y: 2 },
-    { x: 1, y: 3 },
-    { x: 2, y: 4 },
-  ],
-  arrowUp: [
-    { x: 0, y: 2 },
-    { x: 1, y: 1 },
-    { x: 2, y: 0 },
-    { x: 2, y: 1 },
-    { x: 2, y: 2 },
-    { x: 2, y: 3 },
-    { x: 2, y: 4 },
-    { x: 3, y: 1 },
-    { x: 4, y: 2 },
-  ],
-  arrowDown: [
-    { x: 0, y: 2 },
-    { x: 1, y: 3 },
-    { x: 2, y: 0 },
-    { x: 2, y: 1 },
-    { x: 2, y: 2 },
-    { x: 2, y: 3 },
-    { x: 2, y: 4 },
-    { x: 3, y: 3 },
-    { x: 4, y: 2 },
-  ],
+  arrowRight,
+  arrowLeft: flipHorizontal(arrowRight, GRID_SIZE),
+  arrowUp: rotateQuarter(arrowRight, GRID_SIZE, -1),
+  arrowDown: rotateQuarter(arrowRight, GRID_SIZE, 1),
   circle: [
     { x: 1, y: 1 },
     { x: 2, y: 1 },
@@ -753,6 +808,15 @@ const halftoneStates = new Map<string, DotState>([
   ["3,3", "mid"],
 ]);
 
+// Radial heightmap run through the dither importer instead of hand-typed states
+const ditheredOrb = ditherToStates(
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 20 }, (_, x) => Math.max(0, 1 - Math.hypot(x - 9.5, y - 9.5) / 10))
+  ),
+  GRID_SIZE,
+  { method: "threshold" }
+);
+
 // Animation paths - traveling arrow with consistent tip position
 const createArrowAtOffset = (offset: number): Position[] => {
   const arrow: Position[] = [];
@@ -783,6 +847,17 @@ const travelingArrow = [
   createArrowAtOffset(4),
 ];
 
+// Marquee arrow - the arrow keeps moving right and the wrapping Loader brings it back in on the left
+const marqueeArrow = Array.from({ length: GRID_SIZE }, (_, offset) =>
+  shapes.arrowRight.map(({ x, y }) => ({ x: x + offset, y }))
+);
+
+// Marquee text - scrolls a status string through the 3x5 font
+const marqueeText = createMarquee("OK 42%", FONT_3X5, GRID_SIZE);
+
+// Spinning arrow - quarter turns of the canonical arrow
+const spinningArrow = createRotationFrames(arrowRight, GRID_SIZE, 4);
+
 const pulsingDot = [
   [{ x: 2, y: 2 }],
   [{ x: 2, y: 2 }, { x: 1, y: 2 }, { x: 3, y: 2 }, { x: 2, y: 1 }, { x: 2, y: 3 }],
@@ -1088,6 +1163,17 @@ const spiralIn = [
   [{ x: 2, y: 2 }],
 ];
 
+// Spiral Out - the spiral played backwards
+const spiralOut = reverseFrames(spiralIn);
+
+// Vector Radar - the same sweep described as 45° pie slices instead of literal points
+const vectorRadar = Array.from({ length: 8 }, (_, step) =>
+  rasterizeShapes(
+    { type: "arc", center: { x: 2, y: 2 }, radius: 2, startAngle: step * 45 - 90, endAngle: step * 45 - 45, fill: true },
+    GRID_SIZE
+  )
+);
+
 // Radar Sweep - rotating line from center
 const radarSweep = [
   [{ x: 2, y: 2 }, { x: 2, y: 0 }, { x: 2, y: 1 }],
@@ -1344,6 +1430,35 @@ const crossError = [
   [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }, { x: 4, y: 4 }, { x: 4, y: 0 }, { x: 3, y: 1 }, { x: 1, y: 3 }, { x: 0, y: 4 }],
 ];
 
+// Spinner to Check - two keyframes, the in-betweens are generated by nearest-neighbor matching
+const spinnerToCheck = createTween(
+  [
+    { positions: shapes.circle, hold: 2 },
+    { positions: checkSuccess[checkSuccess.length - 1], hold: 3 },
+  ],
+  { grid: GRID_SIZE, frames: 3, loop: true }
+);
+
+// Life and Brian's Brain - procedural, reseeded whenever the board dies or starts looping.
+// The frames end on a reseed, so wrapping back to the first board reads as one more reseed.
+const lifeFrames = generateAutomatonFrames({ grid: WRAPPED_GRID_DIMENSIONS, frames: 240, seed: 42, loop: true });
+const lifePath = automatonPath(lifeFrames);
+const lifeStates = automatonStates(lifeFrames);
+const brainFrames = generateAutomatonFrames({
+  grid: WRAPPED_GRID_DIMENSIONS,
+  frames: 240,
+  rule: { type: "brians-brain" },
+  seed: 7,
+  loop: true,
+});
+const brainPath = automatonPath(brainFrames);
+const brainStates = automatonStates(brainFrames);
+
+// Noise Shimmer - seeded simplex field evolving over time, looping without a seam
+const shimmerFrames = generateNoiseFrames({ grid: GRID_SIZE, frames: 160, seed: 11, octaves: 2, loop: true });
+const shimmerPath = noisePath(shimmerFrames);
+const shimmerStates = noiseStates(shimmerFrames);
+
 // Hourglass - realistic sand falling effect, dots fall one by one from top to bottom
 const hourglass = [
   // Start: Top hourglass filled (5 + 3 + 1 = 9 dots total)
@@ -1502,8 +1617,9 @@ export function LoaderShowcase() {
     level: 0.56,
     trend: 0,
   }));
-  const [card2Data, setCard2Data] = useState(() => createMockComputeUnitsData());
-  const [card3Data, setCard3Data] = useState(() => createMockStorageData());
+  // Fixed seeds so the server and client render the same initial cards
+  const [card2Data, setCard2Data] = useState(() => createMockComputeUnitsData(2));
+  const [card3Data, setCard3Data] = useState(() => createMockStorageData(3));
 
   const handleRandomizeAll = () => {
     setCard1Data(createMockActorsRunData());
@@ -1552,6 +1668,26 @@ function ActorsRunShowcaseContent({
   card3Data,
   onRandomize,
 }: ActorsRunShowcaseProps) {
+  const [loading, setLoading] = useState(false);
+  const fetchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Drop a pending fetch when the showcase unmounts
+  useEffect(() => {
+    return () => {
+      if (fetchTimeoutRef.current) clearTimeout(fetchTimeoutRef.current);
+    };
+  }, []);
+
+  // Pretend the new data takes a while to arrive so the cards show their loading state
+  const handleSimulateFetch = () => {
+    setLoading(true);
+    fetchTimeoutRef.current = setTimeout(() => {
+      fetchTimeoutRef.current = null;
+      onRandomize();
+      setLoading(false);
+    }, 1500);
+  };
+
   return (
     <div className="mb-12">
       <h2 className="text-xl font-semibold mb-6 text-gray-700">Dashboard Cards</h2>
@@ -1562,7 +1698,9 @@ function ActorsRunShowcaseContent({
           usageRange={card1Data.range}
           usageLevel={card1Data.level}
           usageTrend={card1Data.trend}
+          previous={{ amount: 58.4, usageLevel: 0.48, usageTrend: 0.1 }}
           staggerAnimation={true}
+          loading={loading}
           format="currency"
         />
         <ActorsRunCard
@@ -1571,8 +1709,10 @@ function ActorsRunShowcaseContent({
           usageRange={card2Data.range}
           usageLevel={card2Data.level}
           usageTrend={card2Data.trend}
+          chart="bars"
           staggerAnimation={true}
-          format="decimal"
+          loading={loading}
+          format={{ type: "number", fractionDigits: 3, suffix: "CU" }}
         />
         <ActorsRunCard
           label="Storage"
@@ -1580,17 +1720,59 @@ function ActorsRunShowcaseContent({
           usageRange={card3Data.range}
           usageLevel={card3Data.level}
           usageTrend={card3Data.trend}
+          series={card3Data.series}
+          bounds={{ max: 5000 }}
+          thresholds={[{ value: 4000, label: "80% warning" }, { value: 5000, label: "limit" }]}
+          previous={{ amount: card3Data.previousAmount, series: card3Data.previousSeries }}
+          chart="area"
           staggerAnimation={true}
-          format="storage"
+          loading={loading}
+          format={{ type: "bytes", unit: "MB" }}
+        />
+        <ActorsRunCard
+          label="By Actor"
+          usageAmount={actorBreakdownTotal}
+          usageRange="Jan 24 - Feb 24"
+          usageLevel={0}
+          breakdown={actorBreakdown}
+          staggerAnimation={true}
+          loading={loading}
+          format={{ type: "currency", compact: true }}
         />
       </div>
-      <button
-        type="button"
-        onClick={onRandomize}
-        className="mt-4 h-9 rounded-md border border-gray-200 px-3 text-sm font-medium text-gray-700 transition hover:bg-gray-50"
-      >
-        Randomize all data
-      </button>
+      <div className="mt-4 flex flex-wrap items-start gap-4">
+        <ActivityHeatmapCard
+          label="Actor runs, last 26 weeks"
+          days={yearActivity}
+          format={{ type: "number", fractionDigits: 0, suffix: "runs" }}
+          staggerAnimation={true}
+        />
+        <ActivityHeatmapCard
+          label="Actor runs, last 30 days"
+          days={monthActivity}
+          layout="row"
+          format={{ type: "number", fractionDigits: 0, suffix: "runs" }}
+          staggerAnimation={true}
+        />
+      </div>
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          onClick={onRandomize}
+          disabled={loading}
+          className="h-9 rounded-md border border-gray-200 px-3 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:opacity-50"
+        >
+          Randomize all data
+        </button>
+        <button
+          type="button"
+          onClick={handleSimulateFetch}
+          disabled={loading}
+          className="h-9 rounded-md border border-gray-200 px-3 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:opacity-50"
+        >
+          Simulate fetch
+        </button>
+      </div>
     </div>
   );
 }
@@ -1602,8 +1784,8 @@ export function ActorsRunShowcase() {
     level: 0.56,
     trend: 0,
   }));
-  const [card2Data, setCard2Data] = useState(() => createMockComputeUnitsData());
-  const [card3Data, setCard3Data] = useState(() => createMockStorageData());
+  const [card2Data, setCard2Data] = useState(() => createMockComputeUnitsData(2));
+  const [card3Data, setCard3Data] = useState(() => createMockStorageData(3));
 
   const handleRandomizeAll = () => {
     setCard1Data(createMockActorsRunData());
@@ -1737,8 +1919,12 @@ export function AnimatedLoaders5x5Showcase({ speed, onSpeedChange }: AnimatedSho
       <h2 className="text-xl font-semibold mb-6 text-gray-700">Animated Loaders 5x5</h2>
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-8">
         <Loader shape={[]} title="Check Success" animated animationPath={checkSuccess} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Spinner to Check" animated animationPath={spinnerToCheck} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Cross Error" animated animationPath={crossError} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Traveling Arrow" animated animationPath={travelingArrow} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Marquee Arrow" animated animationPath={marqueeArrow} speed={speed} wrap halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Spinning Arrow" animated animationPath={spinningArrow} speed={speed} />
+        <Loader shape={[]} title="Marquee Text" animated animationPath={marqueeText} speed={speed} />
         <Loader shape={[]} title="Pulsing Dot" animated animationPath={pulsingDot} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Scanning Line" animated animationPath={scanningLine} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Expanding Square" animated animationPath={expandingSquare} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
@@ -1749,13 +1935,19 @@ export function AnimatedLoaders5x5Showcase({ speed, onSpeedChange }: AnimatedSho
         <Loader shape={[]} title="Corners Spin" animated animationPath={cornersSpin} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="DNA Helix" animated animationPath={dnaHelix} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Spiral In" animated animationPath={spiralIn} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
-        <Loader shape={[]} title="Radar Sweep" animated animationPath={radarSweep} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
-        <Loader shape={[]} title="Meteor Shower" animated animationPath={meteorShower} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Spiral Out" animated animationPath={spiralOut} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Radar Sweep" animated animationPath={radarSweep} speed={speed} halftone={{ strategy: { type: "trail", length: 5, decay: "exponential" }, continuous: true }} />
+        <Loader shape={[]} title="Vector Radar" animated animationPath={vectorRadar} speed={speed} halftone={{ strategy: { type: "trail", length: 5, decay: "exponential" }, continuous: true }} />
+        <Loader shape={[]} title="Meteor Shower" animated animationPath={meteorShower} speed={speed} halftone={{ strategy: { type: "trail", length: 5, decay: "exponential" }, continuous: true }} />
         <Loader shape={[]} title="Typewriter" animated animationPath={typewriter} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
-        <Loader shape={[]} title="Snake" animated animationPath={snake} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
+        <Loader shape={[]} title="Snake" animated animationPath={snake} speed={speed} halftone={{ strategy: { type: "trail", length: 5, decay: "exponential" }, continuous: true }} />
         <Loader shape={[]} title="Circular Wave" animated animationPath={circularWave} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Diagonal Sweep" animated animationPath={diagonalSweep} speed={speed} halftone={{ strategy: { type: "trail", length: 2 } }} />
         <Loader shape={[]} title="Hourglass" animated animationPath={hourglass} speed={speed} />
+        <Loader shape={[]} title="Game of Life" animated animationPath={lifePath} animationStates={lifeStates} speed={speed} />
+        <Loader shape={[]} title="Noise Shimmer" animated animationPath={shimmerPath} animationStates={shimmerStates} speed={speed} />
+        <Loader shape={[]} title="Brian's Brain" animated animationPath={brainPath} animationStates={brainStates} speed={speed} />
+        <Loader shape={[]} title="Dithered Orb" customStates={ditheredOrb} />
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+/**
+ * Checks that the typed-array fast path (generateHalftoneStateGrid) draws the same frames
+ * as the map-based engine (generateHalftoneStates) for the strategies it handles itself.
+ *
+ * Usage (Node 20.6+):
+ *   npm run check-halftone
+ */
+import { bitGridFromPositions, stateGridFromMap, stateGridToMap } from "../utils/dotGrid";
+import {
+  generateHalftoneStateGrid,
+  generateHalftoneStates,
+  type GridDimensions,
+  type HalftoneStrategy,
+  type Position,
+} from "../utils/halftone";
+
+const DIMENSIONS: GridDimensions = { columns: 7, rows: 5 };
+
+// A dot walking along the top row, most recent frame first
+const history: Position[][] = [3, 2, 1, 0].map((x) => [{ x, y: 0 }]);
+const current: Position[] = [{ x: 4, y: 0 }, { x: 4, y: 1 }];
+
+const cases: { name: string; strategy: HalftoneStrategy }[] = [
+  { name: "neighbors", strategy: { type: "neighbors" } },
+  { name: "neighbors cross", strategy: { type: "neighbors", distance: 2, orthogonalOnly: true } },
+  { name: "distance", strategy: { type: "distance", radius: 2 } },
+  { name: "trail linear", strategy: { type: "trail", length: 5 } },
+  { name: "trail exponential", strategy: { type: "trail", length: 5, decay: "exponential" } },
+  { name: "trail rate 1", strategy: { type: "trail", length: 5, decay: { type: "exponential", rate: 1 } } },
+  { name: "trail stops", strategy: { type: "trail", length: 5, decay: { type: "stops", stops: [1, 0.6, 0, 0.2] } } },
+];
+
+function serialize(states: Map<string, string>): string {
+  return Array.from(states)
+    .filter(([, state]) => state !== "empty")
+    .map(([key, state]) => `${key}=${state}`)
+    .sort()
+    .join(" ");
+}
+
+const failures = cases.filter(({ name, strategy }) => {
+  const expected = serialize(
+    stateGridToMap(stateGridFromMap(generateHalftoneStates(current, strategy, DIMENSIONS, history), DIMENSIONS))
+  );
+  const actual = serialize(
+    stateGridToMap(generateHalftoneStateGrid(bitGridFromPositions(current, DIMENSIONS), strategy, history))
+  );
+
+  if (expected === actual) return false;
+  console.error(`${name}:\n  map engine: ${expected}\n  fast path:  ${actual}`);
+  return true;
+});
+
+if (failures.length > 0) {
+  process.exit(1);
+}
+console.log(`Halftone fast path matches the map engine in ${cases.length} cases`);
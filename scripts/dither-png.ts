@@ -0,0 +1,83 @@
+/**
+ * Converts a PNG on disk into a dot-state map literal for Loader's `customStates`.
+ *
+ * Usage (Node 20.6+, runs offline):
+ *   npm run dither-png -- <file.png> [--size 5 | --columns 23 --rows 14]
+ *     [--method floyd-steinberg|bayer|threshold] [--levels 2|3] [--threshold 0.5]
+ *     [--bayer-size 2|4|8] [--invert]
+ */
+import { readFile } from "node:fs/promises";
+import { decodePng } from "../utils/png";
+import { ditherToStates, type DitherOptions } from "../utils/dither";
+
+const DITHER_METHODS = ["threshold", "bayer", "floyd-steinberg"];
+const BAYER_SIZES = [2, 4, 8];
+
+function parseArgs(args: string[]) {
+  const flags = new Map<string, string>();
+  const files: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === "--invert") {
+      flags.set("invert", "true");
+    } else if (arg.startsWith("--")) {
+      flags.set(arg.slice(2), args[++index] ?? "");
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { flags, file: files[0] };
+}
+
+function readNumber(flags: Map<string, string>, name: string, fallback: number): number {
+  const raw = flags.get(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${name} expects a number, got "${raw}"`);
+  }
+  return value;
+}
+
+async function main() {
+  const { flags, file } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    throw new Error("Usage: dither-png <file.png> [--size N] [--method name] [--levels 2|3]");
+  }
+
+  const method = flags.get("method") ?? "floyd-steinberg";
+  if (!DITHER_METHODS.includes(method)) {
+    throw new Error(`Unknown method "${method}", expected one of ${DITHER_METHODS.join(", ")}`);
+  }
+
+  const bayerSize = readNumber(flags, "bayer-size", 4);
+  if (!BAYER_SIZES.includes(bayerSize)) {
+    throw new Error(`--bayer-size must be one of ${BAYER_SIZES.join(", ")}`);
+  }
+
+  const size = readNumber(flags, "size", 5);
+  const grid = {
+    columns: readNumber(flags, "columns", size),
+    rows: readNumber(flags, "rows", size),
+  };
+  const options: DitherOptions = {
+    method: method as DitherOptions["method"],
+    levels: readNumber(flags, "levels", 3) === 2 ? 2 : 3,
+    threshold: readNumber(flags, "threshold", 0.5),
+    bayerSize: bayerSize as DitherOptions["bayerSize"],
+    invert: flags.has("invert"),
+  };
+
+  const bitmap = await decodePng(new Uint8Array(await readFile(file)));
+  const states = ditherToStates(bitmap, grid, options);
+
+  const entries = Array.from(states, ([key, state]) => `  ["${key}", "${state}"],`);
+  console.log(`new Map<string, DotState>([\n${entries.join("\n")}\n])`);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
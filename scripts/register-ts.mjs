@@ -0,0 +1,4 @@
+// Preloaded with `node --import ./scripts/register-ts.mjs` to run a .ts script (Node 20.6+)
+import { register } from "node:module";
+
+register("./ts-loader.mjs", import.meta.url);
@@ -0,0 +1,35 @@
+import { readFile } from "node:fs/promises";
+import ts from "typescript";
+
+/**
+ * Node module hooks that run the TypeScript scripts in this folder on Node 20.
+ * Sources are transpiled with the project's own TypeScript (no type-checking, `tsc` covers that),
+ * and extensionless relative imports resolve to .ts files the same way the bundler does.
+ */
+
+export async function resolve(specifier, context, nextResolve) {
+  try {
+    return await nextResolve(specifier, context);
+  } catch (error) {
+    if (error?.code !== "ERR_MODULE_NOT_FOUND" || !specifier.startsWith(".")) throw error;
+    return nextResolve(`${specifier}.ts`, context);
+  }
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith(".ts")) {
+    return nextLoad(url, context);
+  }
+
+  const source = await readFile(new URL(url), "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: url,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      isolatedModules: true,
+    },
+  });
+
+  return { format: "module", source: outputText, shortCircuit: true };
+}
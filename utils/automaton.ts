@@ -0,0 +1,219 @@
+import { toGridDimensions, type DotState, type GridSize, type Position } from "./halftone";
+import { createRandom } from "./random";
+
+/**
+ * Automaton rules:
+ * - life: Conway's Game of Life (B3/S23)
+ * - brians-brain: alive cells always spend one generation dying, births need exactly 2 alive neighbors
+ * - custom: any birth/survival rule, as neighbor counts or a "B36/S23" style string
+ */
+export type AutomatonRule =
+  | { type: "life" }
+  | { type: "brians-brain" }
+  | { type: "custom"; birth: number[]; survival: number[] }
+  | string;
+
+export interface AutomatonOptions {
+  grid: GridSize; // Wrap-around follows the grid's `wrap` flag
+  frames: number;
+  rule?: AutomatonRule; // Default { type: "life" }
+  seed?: number; // Same seed, same frames (default 1)
+  density?: number; // Share of cells alive after each (re)seed (default 0.35)
+  cycleLength?: number; // Reseed when the board repeats within this many generations (default 4)
+  loop?: boolean; // Run past `frames` to the next reseed or repeat (up to twice as many), so the last frame loops into the first like a reseed
+}
+
+/**
+ * One generation. Dying cells were alive a generation ago and render in the halftone mid state.
+ */
+export interface AutomatonFrame {
+  alive: Position[];
+  dying: Position[];
+}
+
+interface RuleSet {
+  birth: Set<number>;
+  survival: Set<number>;
+  dyingState: boolean; // Alive cells pass through an explicit dying state (Brian's Brain)
+}
+
+const DEAD = 0;
+const ALIVE = 1;
+const DYING = 2;
+
+/**
+ * Runs the automaton for a number of generations. Whenever the board empties or
+ * settles into a short cycle it is reseeded from the same random stream, so the
+ * output stays deterministic and never sits on a dead grid.
+ * With `loop`, the frames end right before a reseed: jumping back to the first
+ * (freshly seeded) frame then looks like any other reseed. Boards stuck in a long
+ * cycle end as soon as they repeat, as if the cycle had been short enough to catch.
+ */
+export function generateAutomatonFrames({
+  grid,
+  frames,
+  rule = { type: "life" },
+  seed = 1,
+  density = 0.35,
+  cycleLength = 4,
+  loop = false,
+}: AutomatonOptions): AutomatonFrame[] {
+  const dimensions = toGridDimensions(grid);
+  const ruleSet = resolveRule(rule);
+  const random = createRandom(seed);
+  const reseed = () =>
+    Uint8Array.from({ length: dimensions.columns * dimensions.rows }, () => (random() < density ? ALIVE : DEAD));
+
+  let cells: Uint8Array = reseed();
+  let recent: string[] = [];
+  const result: AutomatonFrame[] = [];
+
+  const limit = loop ? frames * 2 : frames;
+
+  for (let frame = 0; frame < limit; frame++) {
+    result.push(describeCells(cells, dimensions.columns));
+
+    let next = stepCells(cells, dimensions.columns, dimensions.rows, !!dimensions.wrap, ruleSet);
+    const signature = next.join("");
+
+    // Once a loop has its frames, any repeat since the last reseed ends it, not just a short cycle
+    const closing = loop && frame + 1 >= frames;
+
+    if (!next.includes(ALIVE) || recent.includes(signature)) {
+      if (closing) break;
+      next = reseed();
+      recent = [];
+    } else {
+      recent = [signature, ...recent].slice(0, closing ? undefined : cycleLength);
+    }
+
+    cells = next;
+  }
+
+  return result;
+}
+
+/**
+ * The alive cells of each generation, ready to use as an `animationPath`
+ */
+export function automatonPath(frames: AutomatonFrame[]): Position[][] {
+  return frames.map((frame) => frame.alive);
+}
+
+/**
+ * Per-generation dot states: alive cells full, dying cells mid
+ */
+export function automatonStates(frames: AutomatonFrame[]): Map<string, DotState>[] {
+  return frames.map(({ alive, dying }) => {
+    const states = new Map<string, DotState>();
+    dying.forEach(({ x, y }) => states.set(`${x},${y}`, "mid"));
+    alive.forEach(({ x, y }) => states.set(`${x},${y}`, "full"));
+    return states;
+  });
+}
+
+/**
+ * Parses a "B3/S23" style rule string into neighbor counts
+ */
+export function parseRule(rule: string): { birth: number[]; survival: number[] } {
+  const match = /^B(\d*)\/S(\d*)$/i.exec(rule.trim());
+  if (!match) {
+    throw new Error(`Invalid automaton rule "${rule}", expected the form "B3/S23"`);
+  }
+  const toCounts = (digits: string) => Array.from(digits, Number);
+  return { birth: toCounts(match[1]), survival: toCounts(match[2]) };
+}
+
+/**
+ * Helper: Normalize every rule form into birth/survival sets
+ */
+function resolveRule(rule: AutomatonRule): RuleSet {
+  if (typeof rule === "string") {
+    const { birth, survival } = parseRule(rule);
+    return { birth: new Set(birth), survival: new Set(survival), dyingState: false };
+  }
+
+  switch (rule.type) {
+    case "life":
+      return { birth: new Set([3]), survival: new Set([2, 3]), dyingState: false };
+    case "brians-brain":
+      return { birth: new Set([2]), survival: new Set(), dyingState: true };
+    case "custom":
+      return { birth: new Set(rule.birth), survival: new Set(rule.survival), dyingState: false };
+  }
+}
+
+/**
+ * Helper: Advance one generation
+ */
+function stepCells(cells: Uint8Array, columns: number, rows: number, wrap: boolean, rule: RuleSet): Uint8Array {
+  const next = new Uint8Array(cells.length);
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const index = y * columns + x;
+      const neighbors = countAliveNeighbors(cells, x, y, columns, rows, wrap);
+      const state = cells[index];
+
+      // Cells that don't survive either vanish or linger for a generation as dying.
+      // Dying cells only block births when the rule has a real dying state.
+      if (state === ALIVE) {
+        next[index] = rule.survival.has(neighbors) ? ALIVE : rule.dyingState ? DYING : DEAD;
+      } else if ((state === DEAD || !rule.dyingState) && rule.birth.has(neighbors)) {
+        next[index] = ALIVE;
+      }
+    }
+  }
+
+  // Without an explicit dying state, cells that just died are the dying ones
+  if (!rule.dyingState) {
+    for (let index = 0; index < cells.length; index++) {
+      if (cells[index] === ALIVE && next[index] === DEAD) next[index] = DYING;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Helper: Alive cells among the 8 neighbors, wrapping across the edges when enabled
+ */
+function countAliveNeighbors(
+  cells: Uint8Array,
+  x: number,
+  y: number,
+  columns: number,
+  rows: number,
+  wrap: boolean
+): number {
+  let count = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      let nx = x + dx;
+      let ny = y + dy;
+      if (wrap) {
+        nx = (nx + columns) % columns;
+        ny = (ny + rows) % rows;
+      } else if (nx < 0 || nx >= columns || ny < 0 || ny >= rows) {
+        continue;
+      }
+      if (cells[ny * columns + nx] === ALIVE) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Helper: Split a generation into alive and dying positions
+ */
+function describeCells(cells: Uint8Array, columns: number): AutomatonFrame {
+  const alive: Position[] = [];
+  const dying: Position[] = [];
+  cells.forEach((state, index) => {
+    const position = { x: index % columns, y: Math.floor(index / columns) };
+    if (state === ALIVE) alive.push(position);
+    else if (state === DYING) dying.push(position);
+  });
+  return { alive, dying };
+}
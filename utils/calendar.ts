@@ -0,0 +1,95 @@
+import { quantileBuckets } from "./series";
+
+/**
+ * Calendar layouts:
+ * - week: one column per week, one row per weekday
+ * - row: every day in a single row, one column per day
+ */
+export type CalendarLayout = "week" | "row";
+
+export interface DailyValue {
+  date: Date | number | string; // Any time on the day; ISO "2025-01-24" strings are read as UTC
+  value: number;
+}
+
+export interface CalendarOptions {
+  layout?: CalendarLayout; // Default "week"
+  weekStartsOn?: 0 | 1; // Sunday or Monday at the top row (default 0)
+  buckets?: number; // Quantile buckets for non-zero values (default 4)
+}
+
+/**
+ * One day on the calendar. Days without data have no value and sit in bucket 0.
+ */
+export interface CalendarDay {
+  date: number; // UTC midnight in milliseconds
+  value?: number;
+  bucket: number;
+}
+
+/**
+ * Days laid out column by column. Cells before the first or after the last day are null.
+ */
+export interface CalendarGrid {
+  columns: number;
+  rows: number;
+  cells: (CalendarDay | null)[][]; // cells[column][row]
+  months: { column: number; date: number }[]; // Column where each month starts
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 1970-01-01 was a Thursday
+const EPOCH_WEEKDAY = 4;
+
+/**
+ * Lays daily values out as a calendar covering every day from the first to the last date.
+ * Dates are bucketed by UTC day, so server and client agree on the layout.
+ */
+export function createCalendarGrid(days: DailyValue[], options: CalendarOptions = {}): CalendarGrid {
+  const { layout = "week", weekStartsOn = 0, buckets = 4 } = options;
+
+  // Later entries for the same day add up
+  const totals = new Map<number, number>();
+  days.forEach(({ date, value }) => {
+    const day = toDayIndex(date);
+    if (!Number.isFinite(day) || !Number.isFinite(value)) return;
+    totals.set(day, (totals.get(day) ?? 0) + value);
+  });
+  if (totals.size === 0) {
+    return { columns: 0, rows: layout === "week" ? 7 : 1, cells: [], months: [] };
+  }
+
+  const first = Math.min(...totals.keys());
+  const last = Math.max(...totals.keys());
+  const dayIndexes = Array.from({ length: last - first + 1 }, (_, offset) => first + offset);
+  const dayBuckets = quantileBuckets(dayIndexes.map((day) => totals.get(day)), buckets);
+
+  // Weekday row of the first day, so the first column can start part way down
+  const leading = layout === "week" ? (first + EPOCH_WEEKDAY - weekStartsOn + 7) % 7 : 0;
+  const rows = layout === "week" ? 7 : 1;
+  const columns = Math.ceil((leading + dayIndexes.length) / rows);
+  const cells: (CalendarDay | null)[][] = Array.from({ length: columns }, () => Array(rows).fill(null));
+  const months: { column: number; date: number }[] = [];
+
+  dayIndexes.forEach((day, offset) => {
+    const slot = leading + offset;
+    const column = Math.floor(slot / rows);
+    const date = day * DAY_MS;
+    cells[column][slot % rows] = { date, value: totals.get(day), bucket: dayBuckets[offset] };
+
+    if (offset === 0 || new Date(date).getUTCDate() === 1) {
+      months.push({ column, date });
+    }
+  });
+
+  return { columns, rows, cells, months };
+}
+
+/**
+ * Helper: Days since the epoch, counted in UTC
+ */
+function toDayIndex(date: Date | number | string): number {
+  const time = date instanceof Date ? date.getTime() : typeof date === "number" ? date : Date.parse(date);
+  return Math.floor(time / DAY_MS);
+}
@@ -0,0 +1,147 @@
+import { ditherToStates, type Heightmap } from "./dither";
+import { bitGridFromPositions, hasCell, setCellState, stateGridFromBitGrids, type StateGrid } from "./dotGrid";
+import { generateHalftoneStateGrid, type GridDimensions, type HalftoneStrategy, type Position } from "./halftone";
+
+/**
+ * How a series is drawn on a dot grid:
+ * - line: connected curve with the halftone strategy around it (default)
+ * - bars: solid column from the bottom up to each value
+ * - area: the curve over a dithered fill that thins out toward the bottom
+ * - step: flat runs joined by vertical risers at the column boundaries
+ * - scatter: one dot per column, unconnected, with the halftone strategy around it
+ */
+export type ChartMode = "line" | "bars" | "area" | "step" | "scatter";
+
+// Fill level right under the curve and at the bottom row (0.5 is a mid dot)
+const AREA_TOP_LEVEL = 0.5;
+const AREA_BOTTOM_LEVEL = 0;
+
+/**
+ * Full dots for one value per column. Heights count rows up from the bottom row.
+ */
+export function chartPositions(heights: number[], dimensions: GridDimensions, mode: ChartMode): Position[] {
+  switch (mode) {
+    case "line":
+    case "area":
+      return linePositions(heights, dimensions);
+    case "step":
+      return stepPositions(heights, dimensions);
+    case "bars":
+      return barPositions(heights, dimensions);
+    case "scatter":
+      return scatterPositions(heights, dimensions);
+  }
+}
+
+/**
+ * Dot states for one value per column, including each mode's shading
+ */
+export function createChartStateGrid(
+  heights: number[],
+  dimensions: GridDimensions,
+  mode: ChartMode,
+  halftone: HalftoneStrategy
+): StateGrid {
+  const full = bitGridFromPositions(chartPositions(heights, dimensions, mode), dimensions);
+
+  switch (mode) {
+    case "bars":
+      return stateGridFromBitGrids(full);
+    case "area": {
+      const grid = stateGridFromBitGrids(full);
+      ditherToStates(createAreaHeightmap(heights, dimensions), dimensions, { method: "bayer" }).forEach(
+        (state, key) => {
+          const [x, y] = key.split(",").map(Number);
+          if (!hasCell(full, x, y)) setCellState(grid, x, y, state);
+        }
+      );
+      return grid;
+    }
+    default:
+      return generateHalftoneStateGrid(full, halftone);
+  }
+}
+
+/**
+ * Helper: Row of a column's value, clamped to the grid
+ */
+function valueRow(heights: number[], column: number, rows: number): number {
+  const height = Math.max(0, Math.min(rows - 1, heights[column] ?? 0));
+  return rows - 1 - height;
+}
+
+/**
+ * Helper: One dot per column, filling vertical gaps so the curve stays connected
+ */
+function linePositions(heights: number[], { columns, rows }: GridDimensions): Position[] {
+  const positions: Position[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const y = valueRow(heights, column, rows);
+    positions.push({ x: column, y });
+
+    // If the jump to the next column is more than 1, fill the gap at this column
+    if (column < columns - 1) {
+      const yDiff = valueRow(heights, column + 1, rows) - y;
+      const yDir = yDiff > 0 ? 1 : -1;
+      for (let step = 1; step < Math.abs(yDiff); step++) {
+        positions.push({ x: column, y: y + yDir * step });
+      }
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Helper: Each value holds across its column, then a riser climbs to the next value
+ */
+function stepPositions(heights: number[], { columns, rows }: GridDimensions): Position[] {
+  const positions: Position[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const y = valueRow(heights, column, rows);
+    const previousY = column > 0 ? valueRow(heights, column - 1, rows) : y;
+    for (let riser = Math.min(y, previousY); riser <= Math.max(y, previousY); riser++) {
+      positions.push({ x: column, y: riser });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Helper: Solid columns from the bottom row up to each value
+ */
+function barPositions(heights: number[], { columns, rows }: GridDimensions): Position[] {
+  const positions: Position[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    for (let y = valueRow(heights, column, rows); y < rows; y++) {
+      positions.push({ x: column, y });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Helper: Just the value dot of each column
+ */
+function scatterPositions(heights: number[], { columns, rows }: GridDimensions): Position[] {
+  return Array.from({ length: columns }, (_, column) => ({ x: column, y: valueRow(heights, column, rows) }));
+}
+
+/**
+ * Helper: Fill levels under the curve, fading from mid right below it to nothing at the bottom
+ */
+function createAreaHeightmap(heights: number[], { columns, rows }: GridDimensions): Heightmap {
+  return Array.from({ length: rows }, (_, y) =>
+    Array.from({ length: columns }, (_, x) => {
+      const top = valueRow(heights, x, rows);
+      if (y <= top) return 0;
+      const depth = (y - top - 1) / Math.max(1, rows - 2 - top);
+      return AREA_TOP_LEVEL + (AREA_BOTTOM_LEVEL - AREA_TOP_LEVEL) * depth;
+    })
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Parse a #rgb or #rrggbb hex color into channels
+ */
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+
+  const hex = match[1].length === 3
+    ? match[1].split("").map((char) => char + char).join("")
+    : match[1];
+
+  return [
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+  ];
+}
+
+/**
+ * Linearly mix two hex colors. Non-hex colors (e.g. display-p3)
+ * can't be interpolated, so they snap to the nearer end instead.
+ */
+export function mixColors(from: string, to: string, t: number): string {
+  const amount = Math.max(0, Math.min(1, t));
+  const fromRgb = parseHexColor(from);
+  const toRgb = parseHexColor(to);
+
+  if (!fromRgb || !toRgb) {
+    return amount < 0.5 ? from : to;
+  }
+
+  const mixed = fromRgb.map((channel, index) =>
+    Math.round(channel + (toRgb[index] - channel) * amount)
+  );
+
+  return `#${mixed.map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+}
@@ -0,0 +1,173 @@
+import type { DotState, GridSize } from "./halftone";
+
+/**
+ * Single-channel bitmap, 0 (black) to 255 (white), row-major
+ */
+export interface GrayscaleBitmap {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * 2D numeric heightmap, rows of values in the 0..1 range (1 = full dot)
+ */
+export type Heightmap = number[][];
+
+export type DitherMethod = "threshold" | "bayer" | "floyd-steinberg";
+
+export interface DitherOptions {
+  method?: DitherMethod; // Default "floyd-steinberg"
+  levels?: 2 | 3; // full/empty only, or full/mid/empty (default 3)
+  threshold?: number; // 0..1, shifts every level boundary (default 0.5)
+  bayerSize?: 2 | 4 | 8; // Ordered dither matrix size (default 4)
+  invert?: boolean; // Bitmaps map dark pixels to full dots unless inverted
+}
+
+const BAYER_2 = [
+  [0, 2],
+  [3, 1],
+];
+
+/**
+ * Converts a grayscale bitmap or heightmap into dot states for any grid size.
+ * The result plugs straight into Loader's `customStates`.
+ */
+export function ditherToStates(
+  source: GrayscaleBitmap | Heightmap,
+  grid: GridSize,
+  options: DitherOptions = {}
+): Map<string, DotState> {
+  const { method = "floyd-steinberg", levels = 3, threshold = 0.5, bayerSize = 4, invert = false } = options;
+  const { columns, rows } = typeof grid === "number" ? { columns: grid, rows: grid } : grid;
+  const values = sampleToGrid(source, columns, rows, invert);
+  const bias = 0.5 - threshold;
+  const states = new Map<string, DotState>();
+
+  const setLevel = (x: number, y: number, level: number) => {
+    const state = levelToState(level, levels);
+    if (state !== "empty") {
+      states.set(`${x},${y}`, state);
+    }
+  };
+
+  switch (method) {
+    case "threshold":
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < columns; x++) {
+          setLevel(x, y, quantizeLevel(values[y][x] + bias, levels));
+        }
+      }
+      break;
+    case "bayer": {
+      const matrix = createBayerMatrix(bayerSize);
+      const step = 1 / (levels - 1);
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < columns; x++) {
+          const offset = (matrix[y % bayerSize][x % bayerSize] - 0.5) * step;
+          setLevel(x, y, quantizeLevel(values[y][x] + bias + offset, levels));
+        }
+      }
+      break;
+    }
+    case "floyd-steinberg": {
+      // Work on a copy so the error can spread into cells not visited yet
+      const buffer = values.map((row) => row.slice());
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < columns; x++) {
+          const value = buffer[y][x];
+          const level = quantizeLevel(value + bias, levels);
+          const error = value - level;
+          setLevel(x, y, level);
+
+          if (x + 1 < columns) buffer[y][x + 1] += (error * 7) / 16;
+          if (y + 1 < rows) {
+            if (x > 0) buffer[y + 1][x - 1] += (error * 3) / 16;
+            buffer[y + 1][x] += (error * 5) / 16;
+            if (x + 1 < columns) buffer[y + 1][x + 1] += error / 16;
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Area-averages the source down (or nearest-samples it up) to one 0..1 value per dot
+ */
+export function sampleToGrid(
+  source: GrayscaleBitmap | Heightmap,
+  columns: number,
+  rows: number,
+  invert: boolean = false
+): number[][] {
+  const isHeightmap = Array.isArray(source);
+  const width = isHeightmap ? (source[0]?.length ?? 0) : source.width;
+  const height = isHeightmap ? source.length : source.height;
+
+  // Heightmaps are already "ink", bitmaps are brightness
+  const readValue = (x: number, y: number): number => {
+    const raw = isHeightmap ? source[y][x] : 1 - source.data[y * width + x] / 255;
+    const value = Math.max(0, Math.min(1, raw));
+    return invert ? 1 - value : value;
+  };
+
+  return Array.from({ length: rows }, (_, cellY) => {
+    const y0 = Math.min(height - 1, Math.floor((cellY * height) / rows));
+    const y1 = Math.max(y0 + 1, Math.floor(((cellY + 1) * height) / rows));
+
+    return Array.from({ length: columns }, (_, cellX) => {
+      if (width === 0 || height === 0) return 0;
+      const x0 = Math.min(width - 1, Math.floor((cellX * width) / columns));
+      const x1 = Math.max(x0 + 1, Math.floor(((cellX + 1) * width) / columns));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += readValue(x, y);
+        }
+      }
+      return sum / ((x1 - x0) * (y1 - y0));
+    });
+  });
+}
+
+/**
+ * Helper: Recursively build a normalized (0..1) Bayer threshold matrix
+ */
+function createBayerMatrix(size: 2 | 4 | 8): number[][] {
+  let matrix = BAYER_2;
+  while (matrix.length < size) {
+    const n = matrix.length;
+    matrix = Array.from({ length: n * 2 }, (_, y) =>
+      Array.from({ length: n * 2 }, (_, x) => {
+        const base = matrix[y % n][x % n] * 4;
+        const quadrant = [0, 2, 3, 1][(y < n ? 0 : 2) + (x < n ? 0 : 1)];
+        return base + quadrant;
+      })
+    );
+  }
+
+  const cells = size * size;
+  return matrix.map((row) => row.map((value) => (value + 0.5) / cells));
+}
+
+/**
+ * Helper: Snap a value to the nearest of `levels` evenly spaced levels in 0..1
+ */
+function quantizeLevel(value: number, levels: 2 | 3): number {
+  const steps = levels - 1;
+  return Math.max(0, Math.min(1, Math.round(value * steps) / steps));
+}
+
+/**
+ * Helper: Map a quantized level to a dot state
+ */
+function levelToState(level: number, levels: 2 | 3): DotState {
+  if (level >= 1) return "full";
+  if (levels === 3 && level > 0) return "mid";
+  return "empty";
+}
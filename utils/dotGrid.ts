@@ -0,0 +1,272 @@
+import type { DotState, GridDimensions, Position } from "./halftone";
+
+/**
+ * Compact on/off grid, one byte per cell in row-major order.
+ * Wrapping grids fold out-of-bounds reads and writes onto the opposite edge.
+ */
+export interface BitGrid {
+  columns: number;
+  rows: number;
+  wrap?: boolean;
+  cells: Uint8Array;
+}
+
+/**
+ * Compact tri-state grid, one state code per cell in row-major order
+ */
+export interface StateGrid {
+  columns: number;
+  rows: number;
+  wrap?: boolean;
+  cells: Uint8Array;
+}
+
+/**
+ * Kernel shape used when dilating:
+ * - square: every cell within Chebyshev distance (8-connected)
+ * - cross: straight lines along the axes only
+ * - disc: every cell within Euclidean distance
+ */
+export type DilateShape = "square" | "cross" | "disc";
+
+const STATE_EMPTY = 0;
+const STATE_MID = 1;
+const STATE_FULL = 2;
+
+const STATE_BY_CODE: DotState[] = ["empty", "mid", "full"];
+const CODE_BY_STATE: Record<DotState, number> = {
+  empty: STATE_EMPTY,
+  mid: STATE_MID,
+  full: STATE_FULL,
+};
+
+/**
+ * Creates an empty bit grid
+ */
+export function createBitGrid({ columns, rows, wrap }: GridDimensions): BitGrid {
+  return { columns, rows, wrap, cells: new Uint8Array(columns * rows) };
+}
+
+/**
+ * Builds a bit grid from positions, dropping anything out of bounds
+ * (or wrapping it around when the dimensions wrap)
+ */
+export function bitGridFromPositions(positions: Position[], dimensions: GridDimensions): BitGrid {
+  const grid = createBitGrid(dimensions);
+  positions.forEach(({ x, y }) => setCell(grid, x, y, true));
+  return grid;
+}
+
+/**
+ * Lists the set cells of a bit grid in row-major order
+ */
+export function bitGridToPositions(grid: BitGrid): Position[] {
+  const positions: Position[] = [];
+  for (let index = 0; index < grid.cells.length; index++) {
+    if (grid.cells[index]) {
+      positions.push({ x: index % grid.columns, y: Math.floor(index / grid.columns) });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Whether a cell is set (out of bounds reads as unset)
+ */
+export function hasCell(grid: BitGrid, x: number, y: number): boolean {
+  const index = getCellIndex(grid, x, y);
+  return index !== -1 && grid.cells[index] === 1;
+}
+
+/**
+ * Sets or clears a cell (out of bounds writes are ignored)
+ */
+export function setCell(grid: BitGrid, x: number, y: number, value: boolean) {
+  const index = getCellIndex(grid, x, y);
+  if (index === -1) return;
+  grid.cells[index] = value ? 1 : 0;
+}
+
+/**
+ * Number of set cells
+ */
+export function countCells(grid: BitGrid): number {
+  let count = 0;
+  for (let index = 0; index < grid.cells.length; index++) {
+    count += grid.cells[index];
+  }
+  return count;
+}
+
+/**
+ * Cells set in either grid
+ */
+export function unionBitGrids(a: BitGrid, b: BitGrid): BitGrid {
+  return combineBitGrids(a, b, (left, right) => left | right);
+}
+
+/**
+ * Cells set in both grids
+ */
+export function intersectBitGrids(a: BitGrid, b: BitGrid): BitGrid {
+  return combineBitGrids(a, b, (left, right) => left & right);
+}
+
+/**
+ * Cells set in `a` but not in `b`
+ */
+export function diffBitGrids(a: BitGrid, b: BitGrid): BitGrid {
+  return combineBitGrids(a, b, (left, right) => left & (right ^ 1));
+}
+
+/**
+ * Grows every set cell by `distance` using the given kernel shape.
+ * The original cells stay set.
+ */
+export function dilateBitGrid(
+  grid: BitGrid,
+  distance: number = 1,
+  shape: DilateShape = "square"
+): BitGrid {
+  const result: BitGrid = { ...grid, cells: grid.cells.slice() };
+  const offsets = getKernelOffsets(distance, shape);
+
+  for (let index = 0; index < grid.cells.length; index++) {
+    if (!grid.cells[index]) continue;
+    const x = index % grid.columns;
+    const y = Math.floor(index / grid.columns);
+
+    for (let i = 0; i < offsets.length; i++) {
+      setCell(result, x + offsets[i].x, y + offsets[i].y, true);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates an all-empty state grid
+ */
+export function createStateGrid({ columns, rows, wrap }: GridDimensions): StateGrid {
+  return { columns, rows, wrap, cells: new Uint8Array(columns * rows) };
+}
+
+/**
+ * Builds a state grid from full and mid bit grids. Full wins where both are set.
+ */
+export function stateGridFromBitGrids(full: BitGrid, mid?: BitGrid): StateGrid {
+  const grid = createStateGrid(full);
+  for (let index = 0; index < grid.cells.length; index++) {
+    if (full.cells[index]) {
+      grid.cells[index] = STATE_FULL;
+    } else if (mid?.cells[index]) {
+      grid.cells[index] = STATE_MID;
+    }
+  }
+  return grid;
+}
+
+/**
+ * Adapter from the `${x},${y}` keyed map form
+ */
+export function stateGridFromMap(states: Map<string, DotState>, dimensions: GridDimensions): StateGrid {
+  const grid = createStateGrid(dimensions);
+  states.forEach((state, key) => {
+    const [x, y] = key.split(",").map(Number);
+    setCellState(grid, x, y, state);
+  });
+  return grid;
+}
+
+/**
+ * Adapter back to the `${x},${y}` keyed map form (empty cells are omitted)
+ */
+export function stateGridToMap(grid: StateGrid): Map<string, DotState> {
+  const states = new Map<string, DotState>();
+  for (let index = 0; index < grid.cells.length; index++) {
+    if (grid.cells[index] !== STATE_EMPTY) {
+      states.set(
+        `${index % grid.columns},${Math.floor(index / grid.columns)}`,
+        STATE_BY_CODE[grid.cells[index]]
+      );
+    }
+  }
+  return states;
+}
+
+/**
+ * Reads a cell state (out of bounds reads as empty)
+ */
+export function getCellState(grid: StateGrid, x: number, y: number): DotState {
+  const index = getCellIndex(grid, x, y);
+  if (index === -1) return "empty";
+  return STATE_BY_CODE[grid.cells[index]];
+}
+
+/**
+ * Writes a cell state (out of bounds writes are ignored)
+ */
+export function setCellState(grid: StateGrid, x: number, y: number, state: DotState) {
+  const index = getCellIndex(grid, x, y);
+  if (index === -1) return;
+  grid.cells[index] = CODE_BY_STATE[state];
+}
+
+/**
+ * Helper: Row-major index of a cell, wrapped or -1 when out of bounds
+ */
+function getCellIndex(grid: BitGrid | StateGrid, x: number, y: number): number {
+  if (grid.wrap) {
+    const wrappedX = ((x % grid.columns) + grid.columns) % grid.columns;
+    const wrappedY = ((y % grid.rows) + grid.rows) % grid.rows;
+    return wrappedY * grid.columns + wrappedX;
+  }
+  if (x < 0 || x >= grid.columns || y < 0 || y >= grid.rows) return -1;
+  return y * grid.columns + x;
+}
+
+/**
+ * Helper: Apply a per-cell operator to two grids of the same size
+ */
+function combineBitGrids(
+  a: BitGrid,
+  b: BitGrid,
+  operator: (left: number, right: number) => number
+): BitGrid {
+  if (a.columns !== b.columns || a.rows !== b.rows) {
+    throw new Error(`Grid size mismatch: ${a.columns}x${a.rows} vs ${b.columns}x${b.rows}`);
+  }
+
+  const cells = new Uint8Array(a.cells.length);
+  for (let index = 0; index < cells.length; index++) {
+    cells[index] = operator(a.cells[index], b.cells[index]);
+  }
+  return { columns: a.columns, rows: a.rows, wrap: a.wrap, cells };
+}
+
+// Kernel offsets are reused across frames, so build each one once
+const kernelCache = new Map<string, Position[]>();
+
+/**
+ * Helper: Offsets (excluding the origin) covered by a dilation kernel
+ */
+function getKernelOffsets(distance: number, shape: DilateShape): Position[] {
+  const cacheKey = `${shape}-${distance}`;
+  const cached = kernelCache.get(cacheKey);
+  if (cached) return cached;
+
+  const reach = Math.floor(distance);
+  const offsets: Position[] = [];
+
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      if (shape === "cross" && dx !== 0 && dy !== 0) continue;
+      if (shape === "disc" && dx * dx + dy * dy > distance * distance) continue;
+      offsets.push({ x: dx, y: dy });
+    }
+  }
+
+  kernelCache.set(cacheKey, offsets);
+  return offsets;
+}
@@ -0,0 +1,293 @@
+import { clipPositions, toGridDimensions, type GridSize, type Position } from "./halftone";
+
+/**
+ * Bitmap glyph font. Each glyph is a list of rows, top to bottom, where "#" is a dot.
+ * Glyph width comes from the row length, so fonts can mix narrow and wide glyphs.
+ */
+export interface DotFont {
+  height: number;
+  letterSpacing: number; // Blank columns between glyphs
+  glyphs: Record<string, string[]>;
+  kerning?: Record<string, number>; // Extra spacing for a glyph pair such as "LT" (negative pulls closer)
+  fallback: string; // Glyph drawn for characters the font does not have
+}
+
+export type TextAlign = "start" | "center" | "end";
+
+export interface TextLayoutOptions {
+  x?: number; // Left edge of the text (overrides align)
+  y?: number; // Top edge of the text (overrides verticalAlign)
+  align?: TextAlign; // Horizontal placement within the grid (default "start")
+  verticalAlign?: TextAlign; // Vertical placement within the grid (default "center")
+  letterSpacing?: number; // Overrides the font's letter spacing
+  kerning?: boolean; // Apply the font's kerning pairs (default true)
+}
+
+export interface MarqueeOptions extends Omit<TextLayoutOptions, "x" | "align"> {
+  gap?: number; // Blank columns between repeats of the text (default grid width)
+}
+
+export const FONT_3X5: DotFont = {
+  height: 5,
+  letterSpacing: 1,
+  fallback: "?",
+  kerning: { LT: -1, LV: -1, LY: -1 },
+  glyphs: {
+    "0": ["###", "#.#", "#.#", "#.#", "###"],
+    "1": [".#.", "##.", ".#.", ".#.", "###"],
+    "2": ["###", "..#", "###", "#..", "###"],
+    "3": ["###", "..#", ".##", "..#", "###"],
+    "4": ["#.#", "#.#", "###", "..#", "..#"],
+    "5": ["###", "#..", "###", "..#", "###"],
+    "6": ["###", "#..", "###", "#.#", "###"],
+    "7": ["###", "..#", "..#", ".#.", ".#."],
+    "8": ["###", "#.#", "###", "#.#", "###"],
+    "9": ["###", "#.#", "###", "..#", "###"],
+    A: [".#.", "#.#", "###", "#.#", "#.#"],
+    B: ["##.", "#.#", "##.", "#.#", "##."],
+    C: [".##", "#..", "#..", "#..", ".##"],
+    D: ["##.", "#.#", "#.#", "#.#", "##."],
+    E: ["###", "#..", "##.", "#..", "###"],
+    F: ["###", "#..", "##.", "#..", "#.."],
+    G: [".##", "#..", "#.#", "#.#", ".##"],
+    H: ["#.#", "#.#", "###", "#.#", "#.#"],
+    I: ["###", ".#.", ".#.", ".#.", "###"],
+    J: ["..#", "..#", "..#", "#.#", ".#."],
+    K: ["#.#", "#.#", "##.", "#.#", "#.#"],
+    L: ["#..", "#..", "#..", "#..", "###"],
+    M: ["#...#", "##.##", "#.#.#", "#...#", "#...#"],
+    N: ["#..#", "##.#", "#.##", "#..#", "#..#"],
+    O: [".#.", "#.#", "#.#", "#.#", ".#."],
+    P: ["##.", "#.#", "##.", "#..", "#.."],
+    Q: [".#.", "#.#", "#.#", "##.", ".##"],
+    R: ["##.", "#.#", "##.", "#.#", "#.#"],
+    S: [".##", "#..", ".#.", "..#", "##."],
+    T: ["###", ".#.", ".#.", ".#.", ".#."],
+    U: ["#.#", "#.#", "#.#", "#.#", "###"],
+    V: ["#.#", "#.#", "#.#", "#.#", ".#."],
+    W: ["#...#", "#...#", "#.#.#", "##.##", "#...#"],
+    X: ["#.#", "#.#", ".#.", "#.#", "#.#"],
+    Y: ["#.#", "#.#", ".#.", ".#.", ".#."],
+    Z: ["###", "..#", ".#.", "#..", "###"],
+    " ": ["..", "..", "..", "..", ".."],
+    ".": [".", ".", ".", ".", "#"],
+    ",": ["..", "..", "..", ".#", "#."],
+    ":": [".", "#", ".", "#", "."],
+    "!": ["#", "#", "#", ".", "#"],
+    "?": ["###", "..#", ".#.", "...", ".#."],
+    "-": ["...", "...", "###", "...", "..."],
+    "+": ["...", ".#.", "###", ".#.", "..."],
+    "%": ["#.#", "..#", ".#.", "#..", "#.#"],
+    "/": ["..#", "..#", ".#.", "#..", "#.."],
+  },
+};
+
+export const FONT_5X7: DotFont = {
+  height: 7,
+  letterSpacing: 1,
+  fallback: "?",
+  kerning: { LT: -1, LV: -1, LY: -1, TA: -1, AT: -1 },
+  glyphs: {
+    "0": [".###.", "#...#", "#..##", "#.#.#", "##..#", "#...#", ".###."],
+    "1": ["..#..", ".##..", "..#..", "..#..", "..#..", "..#..", ".###."],
+    "2": [".###.", "#...#", "....#", "...#.", "..#..", ".#...", "#####"],
+    "3": ["#####", "...#.", "..#..", "...#.", "....#", "#...#", ".###."],
+    "4": ["...#.", "..##.", ".#.#.", "#..#.", "#####", "...#.", "...#."],
+    "5": ["#####", "#....", "####.", "....#", "....#", "#...#", ".###."],
+    "6": ["..##.", ".#...", "#....", "####.", "#...#", "#...#", ".###."],
+    "7": ["#####", "....#", "...#.", "..#..", ".#...", ".#...", ".#..."],
+    "8": [".###.", "#...#", "#...#", ".###.", "#...#", "#...#", ".###."],
+    "9": [".###.", "#...#", "#...#", ".####", "....#", "...#.", ".##.."],
+    A: [".###.", "#...#", "#...#", "#####", "#...#", "#...#", "#...#"],
+    B: ["####.", "#...#", "#...#", "####.", "#...#", "#...#", "####."],
+    C: [".###.", "#...#", "#....", "#....", "#....", "#...#", ".###."],
+    D: ["###..", "#..#.", "#...#", "#...#", "#...#", "#..#.", "###.."],
+    E: ["#####", "#....", "#....", "####.", "#....", "#....", "#####"],
+    F: ["#####", "#....", "#....", "####.", "#....", "#....", "#...."],
+    G: [".###.", "#...#", "#....", "#.###", "#...#", "#...#", ".####"],
+    H: ["#...#", "#...#", "#...#", "#####", "#...#", "#...#", "#...#"],
+    I: ["###", ".#.", ".#.", ".#.", ".#.", ".#.", "###"],
+    J: ["..###", "...#.", "...#.", "...#.", "...#.", "#..#.", ".##.."],
+    K: ["#...#", "#..#.", "#.#..", "##...", "#.#..", "#..#.", "#...#"],
+    L: ["#....", "#....", "#....", "#....", "#....", "#....", "#####"],
+    M: ["#...#", "##.##", "#.#.#", "#.#.#", "#...#", "#...#", "#...#"],
+    N: ["#...#", "#...#", "##..#", "#.#.#", "#..##", "#...#", "#...#"],
+    O: [".###.", "#...#", "#...#", "#...#", "#...#", "#...#", ".###."],
+    P: ["####.", "#...#", "#...#", "####.", "#....", "#....", "#...."],
+    Q: [".###.", "#...#", "#...#", "#...#", "#.#.#", "#..#.", ".##.#"],
+    R: ["####.", "#...#", "#...#", "####.", "#.#..", "#..#.", "#...#"],
+    S: [".####", "#....", "#....", ".###.", "....#", "....#", "####."],
+    T: ["#####", "..#..", "..#..", "..#..", "..#..", "..#..", "..#.."],
+    U: ["#...#", "#...#", "#...#", "#...#", "#...#", "#...#", ".###."],
+    V: ["#...#", "#...#", "#...#", "#...#", "#...#", ".#.#.", "..#.."],
+    W: ["#...#", "#...#", "#...#", "#.#.#", "#.#.#", "#.#.#", ".#.#."],
+    X: ["#...#", "#...#", ".#.#.", "..#..", ".#.#.", "#...#", "#...#"],
+    Y: ["#...#", "#...#", ".#.#.", "..#..", "..#..", "..#..", "..#.."],
+    Z: ["#####", "....#", "...#.", "..#..", ".#...", "#....", "#####"],
+    " ": ["...", "...", "...", "...", "...", "...", "..."],
+    ".": ["..", "..", "..", "..", "..", "##", "##"],
+    ",": ["..", "..", "..", "..", ".#", ".#", "#."],
+    ":": ["..", "##", "##", "..", "##", "##", ".."],
+    "!": ["#", "#", "#", "#", "#", ".", "#"],
+    "?": [".###.", "#...#", "....#", "...#.", "..#..", ".....", "..#.."],
+    "-": ["....", "....", "....", "####", "....", "....", "...."],
+    "+": [".....", "..#..", "..#..", "#####", "..#..", "..#..", "....."],
+    "%": ["##...", "##..#", "...#.", "..#..", ".#...", "#..##", "...##"],
+    "/": ["....#", "....#", "...#.", "..#..", ".#...", "#....", "#...."],
+  },
+};
+
+/**
+ * Width and height of a string in dots, including kerning but no trailing spacing
+ */
+export function measureText(
+  text: string,
+  font: DotFont,
+  options: Pick<TextLayoutOptions, "letterSpacing" | "kerning"> = {}
+): { width: number; height: number } {
+  return { width: layoutGlyphs(text, font, options).width, height: font.height };
+}
+
+/**
+ * Renders a string into positions. With a grid, the text is aligned within it
+ * and clipped at its bounds (or wrapped around when the grid wraps).
+ */
+export function renderText(
+  text: string,
+  font: DotFont,
+  grid?: GridSize,
+  options: TextLayoutOptions = {}
+): Position[] {
+  const { align = "start", verticalAlign = "center" } = options;
+  const { glyphs, width } = layoutGlyphs(text, font, options);
+
+  if (!grid) {
+    return placeGlyphs(glyphs, options.x ?? 0, options.y ?? 0);
+  }
+
+  const { columns, rows } = toGridDimensions(grid);
+  const x = options.x ?? alignOffset(align, columns, width);
+  const y = options.y ?? alignOffset(verticalAlign, rows, font.height);
+
+  return clipPositions(placeGlyphs(glyphs, x, y), grid);
+}
+
+/**
+ * Scrolls a string right to left across the grid, one column per frame.
+ * The frames loop seamlessly, so the result can be used directly as an `animationPath`.
+ */
+export function createMarquee(
+  text: string,
+  font: DotFont,
+  grid: GridSize,
+  options: MarqueeOptions = {}
+): Position[][] {
+  const { verticalAlign = "center" } = options;
+  const { columns, rows } = toGridDimensions(grid);
+  const { glyphs, width } = layoutGlyphs(text, font, options);
+  const gap = Math.max(0, options.gap ?? columns);
+  const period = width + gap;
+  const y = options.y ?? alignOffset(verticalAlign, rows, font.height);
+
+  return Array.from({ length: period }, (_, step) => {
+    const frame: Position[] = [];
+    // Draw every repeat that overlaps the grid so short gaps still loop cleanly
+    for (let x = columns - step; x > -width; x -= period) {
+      frame.push(...placeGlyphs(glyphs, x, y));
+    }
+    for (let x = columns - step + period; x < columns; x += period) {
+      frame.push(...placeGlyphs(glyphs, x, y));
+    }
+    return clipPositions(frame, { columns, rows });
+  });
+}
+
+interface PlacedGlyph {
+  x: number;
+  dots: Position[];
+}
+
+/**
+ * Helper: Position every glyph of a string along a baseline starting at x = 0
+ */
+function layoutGlyphs(
+  text: string,
+  font: DotFont,
+  { letterSpacing = font.letterSpacing, kerning = true }: Pick<TextLayoutOptions, "letterSpacing" | "kerning">
+): { glyphs: PlacedGlyph[]; width: number } {
+  const glyphs: PlacedGlyph[] = [];
+  let cursor = 0;
+  let width = 0;
+  let previous: string | null = null;
+
+  for (const character of text) {
+    const key = resolveGlyphKey(character, font);
+    const rows = font.glyphs[key];
+
+    if (previous !== null) {
+      cursor += letterSpacing + (kerning ? (font.kerning?.[previous + key] ?? 0) : 0);
+    }
+
+    glyphs.push({ x: cursor, dots: parseGlyph(rows) });
+    const glyphWidth = rows[0]?.length ?? 0;
+    width = Math.max(width, cursor + glyphWidth);
+    cursor += glyphWidth;
+    previous = key;
+  }
+
+  return { glyphs, width };
+}
+
+/**
+ * Helper: Glyph lookup with uppercase and fallback substitution
+ */
+function resolveGlyphKey(character: string, font: DotFont): string {
+  if (font.glyphs[character]) return character;
+  const upper = character.toUpperCase();
+  if (font.glyphs[upper]) return upper;
+  return font.fallback;
+}
+
+// Parsed glyphs are shared across renders, keyed by the row array itself
+const glyphCache = new WeakMap<string[], Position[]>();
+
+/**
+ * Helper: Dot offsets of a glyph relative to its top-left corner
+ */
+function parseGlyph(rows: string[]): Position[] {
+  const cached = glyphCache.get(rows);
+  if (cached) return cached;
+
+  const dots: Position[] = [];
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] === "#") dots.push({ x, y });
+    }
+  });
+
+  glyphCache.set(rows, dots);
+  return dots;
+}
+
+/**
+ * Helper: Translate laid-out glyphs to absolute positions
+ */
+function placeGlyphs(glyphs: PlacedGlyph[], originX: number, originY: number): Position[] {
+  return glyphs.flatMap((glyph) =>
+    glyph.dots.map(({ x, y }) => ({ x: originX + glyph.x + x, y: originY + y }))
+  );
+}
+
+/**
+ * Helper: Offset that places content of a given size within the available space
+ */
+function alignOffset(align: TextAlign, available: number, size: number): number {
+  switch (align) {
+    case "start":
+      return 0;
+    case "center":
+      return Math.floor((available - size) / 2);
+    case "end":
+      return available - size;
+  }
+}
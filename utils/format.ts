@@ -0,0 +1,141 @@
+import { useState } from "react";
+
+export type ByteUnit = "B" | "KB" | "MB" | "GB" | "TB";
+
+/**
+ * Formatter configurations, all built on Intl.NumberFormat:
+ * - currency: amounts in a currency code, optionally compact ($1.2K)
+ * - number: plain or compact numbers with an optional unit suffix ("42 CU")
+ * - bytes: sizes scaled up to TB, 1000-based (KB, MB) or 1024-based (KiB, MiB)
+ * The locale defaults to "en-US" so server and client render the same text.
+ */
+export type ValueFormatConfig =
+  | {
+      type: "currency";
+      currency?: string; // ISO 4217 code (default "USD")
+      locale?: string;
+      compact?: boolean;
+      fractionDigits?: number; // Fixed decimals (default: the currency's own, or up to 1 of them when compact)
+    }
+  | {
+      type: "number";
+      locale?: string;
+      compact?: boolean;
+      fractionDigits?: number; // Fixed decimals (default: up to 3, or up to 1 when compact)
+      suffix?: string; // Unit appended after a space, e.g. "CU"
+    }
+  | {
+      type: "bytes";
+      unit?: ByteUnit; // Unit of the raw values (default "B")
+      binary?: boolean; // 1024-based KiB, MiB, GiB, TiB instead of 1000-based units
+      locale?: string;
+      fractionDigits?: number; // Up to this many decimals (default 2)
+    };
+
+/**
+ * The original presets, kept with their exact output:
+ * - currency: "$12.34"
+ * - storage: megabytes as "512 MB" or "1.50 GB"
+ * - decimal: "0.004"
+ */
+export type ValueFormatPreset = "currency" | "storage" | "decimal";
+
+export type ValueFormat = ValueFormatPreset | ValueFormatConfig;
+
+const DEFAULT_LOCALE = "en-US";
+const BYTE_UNITS: ByteUnit[] = ["B", "KB", "MB", "GB", "TB"];
+const BINARY_BYTE_LABELS = ["B", "KiB", "MiB", "GiB", "TiB"];
+
+/**
+ * Builds a value formatter once, so repeated calls reuse the same Intl.NumberFormat
+ */
+export function createValueFormatter(format: ValueFormat): (value: number) => string {
+  if (typeof format === "string") {
+    return (value) => formatPreset(value, format);
+  }
+
+  switch (format.type) {
+    case "currency": {
+      const locale = format.locale ?? DEFAULT_LOCALE;
+      const currency = format.currency ?? "USD";
+      // Compact amounts drop trailing zeros and keep at most 1 of the currency's decimals (none for yen)
+      const compactDigits = format.compact
+        ? Math.min(1, new Intl.NumberFormat(locale, { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2)
+        : undefined;
+      const formatter = new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency,
+        notation: format.compact ? "compact" : "standard",
+        ...fractionDigitOptions(format.fractionDigits, compactDigits),
+      });
+      return (value) => formatter.format(value);
+    }
+    case "number": {
+      const formatter = new Intl.NumberFormat(format.locale ?? DEFAULT_LOCALE, {
+        notation: format.compact ? "compact" : "standard",
+        ...fractionDigitOptions(format.fractionDigits, format.compact ? 1 : 3),
+      });
+      return (value) => (format.suffix ? `${formatter.format(value)} ${format.suffix}` : formatter.format(value));
+    }
+    case "bytes": {
+      const formatter = new Intl.NumberFormat(format.locale ?? DEFAULT_LOCALE, {
+        maximumFractionDigits: format.fractionDigits ?? 2,
+      });
+      const base = format.binary ? 1024 : 1000;
+      const labels = format.binary ? BINARY_BYTE_LABELS : BYTE_UNITS;
+      const unitIndex = BYTE_UNITS.indexOf(format.unit ?? "B");
+
+      return (value) => {
+        const bytes = value * base ** unitIndex;
+        let index = 0;
+        while (index < labels.length - 1 && Math.abs(bytes) >= base ** (index + 1)) index++;
+        return `${formatter.format(bytes / base ** index)} ${labels[index]}`;
+      };
+    }
+  }
+}
+
+/**
+ * Value formatter for a component, rebuilt only when the format's content changes.
+ * Inline config objects are new on every render, so the cache is keyed on their JSON.
+ */
+export function useValueFormatter(format: ValueFormat): (value: number) => string {
+  const key = typeof format === "string" ? format : JSON.stringify(format);
+  const [cached, setCached] = useState(() => ({ key, formatValue: createValueFormatter(format) }));
+
+  if (cached.key !== key) {
+    const next = { key, formatValue: createValueFormatter(format) };
+    setCached(next);
+    return next.formatValue;
+  }
+  return cached.formatValue;
+}
+
+/**
+ * Helper: The original hard-coded formats
+ */
+function formatPreset(value: number, preset: ValueFormatPreset): string {
+  switch (preset) {
+    case "currency":
+      return `$${value.toFixed(2)}`;
+    case "storage":
+      if (value >= 1000) {
+        return `${(value / 1000).toFixed(2)} GB`;
+      }
+      return `${value.toFixed(0)} MB`;
+    case "decimal":
+      return value.toFixed(3);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Helper: Fixed decimals when given, otherwise an optional upper limit without trailing zeros
+ */
+function fractionDigitOptions(fixed: number | undefined, maximum: number | undefined): Intl.NumberFormatOptions {
+  if (fixed !== undefined) {
+    return { minimumFractionDigits: fixed, maximumFractionDigits: fixed };
+  }
+  return maximum === undefined ? {} : { minimumFractionDigits: 0, maximumFractionDigits: maximum };
+}
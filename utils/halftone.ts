@@ -1,3 +1,15 @@
+import {
+  bitGridFromPositions,
+  bitGridToPositions,
+  createBitGrid,
+  dilateBitGrid,
+  stateGridFromBitGrids,
+  stateGridFromMap,
+  unionBitGrids,
+  type BitGrid,
+  type StateGrid,
+} from "./dotGrid";
+
 export type DotState = "full" | "mid" | "empty";
 
 export interface Position {
@@ -7,9 +19,116 @@ export interface Position {
 
 export type HalftoneStrategy =
   | { type: "neighbors"; orthogonalOnly?: boolean; distance?: number }
-  | { type: "trail"; length: number }
+  | { type: "trail"; length: number; decay?: TrailDecay } // Length counts the current frame (2 = current plus one previous)
   | { type: "distance"; radius: number }
-  | { type: "gradient"; direction: "outward" | "inward" };
+  | ({ type: "gradient" } & GradientOptions)
+  | { type: "pipeline"; steps: HalftonePipelineStep[] }
+  | CustomHalftoneStrategy;
+
+/**
+ * Explicit grid dimensions for non-square grids.
+ * With `wrap`, the grid is a torus: positions past an edge reappear on the
+ * opposite side and halftone neighborhoods continue across the seam.
+ */
+export interface GridDimensions {
+  columns: number;
+  rows: number;
+  wrap?: boolean;
+}
+
+/**
+ * A square grid size or explicit dimensions
+ */
+export type GridSize = number | GridDimensions;
+
+/**
+ * Reference to a strategy registered with registerHalftoneStrategy
+ */
+export interface CustomHalftoneStrategy {
+  type: "custom";
+  name: string;
+  options?: unknown;
+}
+
+/**
+ * Everything a custom strategy gets to work with
+ */
+export interface HalftoneStrategyContext {
+  fullPositions: Position[];
+  columns: number;
+  rows: number;
+  frameHistory: Position[][]; // Previous frames, most recent first
+  wrap: boolean;
+}
+
+/**
+ * A custom strategy returns the complete state map for the frame.
+ * Used on its own, the map is taken as-is, so it may turn full dots empty;
+ * inside a pipeline its dots are layered like any other step.
+ */
+export type HalftoneStrategyHandler<TOptions> = (
+  context: HalftoneStrategyContext,
+  options: TOptions
+) => Map<string, DotState>;
+
+interface RegisteredHalftoneStrategy {
+  handler: HalftoneStrategyHandler<unknown>;
+  historyLength: number;
+  revision: number;
+}
+
+/**
+ * How the trail level drops with frame age:
+ * - linear: even steps down to the last frame (default)
+ * - exponential: each older frame keeps `rate` of the previous level (default 0.5)
+ * - stops: explicit level per frame age, most recent first; ages past the end are dropped
+ */
+export type TrailDecay =
+  | "linear"
+  | "exponential"
+  | { type: "exponential"; rate: number }
+  | { type: "stops"; stops: number[] };
+
+/**
+ * Gradient modes:
+ * - outward/inward: radial around `anchor` (default: centroid of the full positions)
+ * - directional: dots ahead of the shape along `vector`, or `angle` in degrees
+ *   (0 points right, 90 points down)
+ * - light: dots on the far side of the shape from a light `source`
+ */
+export type GradientOptions =
+  | { direction: "outward" | "inward"; anchor?: Position }
+  | { direction: "directional"; angle?: number; vector?: Position }
+  | { direction: "light"; source: Position };
+
+/**
+ * How a pipeline step combines with the result of the steps before it:
+ * - max: keep the stronger level per dot
+ * - union: add the step's dots, keeping existing levels where both are set
+ * - subtract: remove the step's dots
+ * - mask: keep only dots the step also produces
+ */
+export type HalftoneMergeRule = "max" | "union" | "subtract" | "mask";
+
+export interface HalftonePipelineStep {
+  strategy: HalftoneStrategy;
+  merge?: HalftoneMergeRule; // Default "max"
+}
+
+/**
+ * Per-dot intensity in the 0..1 range, keyed by `${x},${y}`.
+ * 1 is a full dot, anything between 0 and 1 is a halftone level.
+ */
+export type DotIntensityMap = Map<string, number>;
+
+export const FULL_INTENSITY = 1;
+export const MID_INTENSITY = 0.5;
+
+// Neighbors at right angles to a gradient axis shouldn't pick up float noise
+const ALIGNMENT_EPSILON = 1e-6;
+
+// Trail dots are always halftones, so their level stays just under a full dot
+const MAX_TRAIL_LEVEL = 0.99;
 
 /**
  * Main function that converts Position[] to state map
@@ -17,58 +136,403 @@ export type HalftoneStrategy =
 export function generateHalftoneStates(
   fullPositions: Position[],
   strategy: HalftoneStrategy,
-  gridSize: number = 5,
+  grid: GridSize = 5,
   frameHistory?: Position[][] // For trail strategy
 ): Map<string, DotState> {
-  const stateMap = new Map<string, DotState>();
+  return quantizeIntensities(
+    generateHalftoneIntensities(fullPositions, strategy, grid, frameHistory)
+  );
+}
+
+/**
+ * Fast path of generateHalftoneStates that stays on typed-array grids.
+ * Neighbors, distance and trail never build string keys; other strategies
+ * fall back to the map-based engine.
+ */
+export function generateHalftoneStateGrid(
+  full: BitGrid,
+  strategy: HalftoneStrategy,
+  frameHistory: Position[][] = [] // For trail strategy
+): StateGrid {
+  const dimensions: GridDimensions = { columns: full.columns, rows: full.rows, wrap: full.wrap };
+
+  switch (strategy.type) {
+    case "neighbors":
+      return stateGridFromBitGrids(
+        full,
+        dilateBitGrid(full, strategy.distance ?? 1, strategy.orthogonalOnly ? "cross" : "square")
+      );
+    case "distance":
+      return stateGridFromBitGrids(full, dilateBitGrid(full, strategy.radius, "disc"));
+    case "trail": {
+      const trail = frameHistory
+        .slice(0, strategy.length - 1)
+        .filter((_, age) => getTrailLevel(age, strategy.length, strategy.decay) > 0)
+        .reduce(
+          (merged, frame) => unionBitGrids(merged, bitGridFromPositions(frame, dimensions)),
+          createBitGrid(dimensions)
+        );
+      return stateGridFromBitGrids(full, trail);
+    }
+    default:
+      return stateGridFromMap(
+        generateHalftoneStates(bitGridToPositions(full), strategy, dimensions, frameHistory),
+        dimensions
+      );
+  }
+}
+
+/**
+ * Converts Position[] to a continuous intensity map.
+ * Full positions get 1, halftone positions get a level below 1.
+ */
+export function generateHalftoneIntensities(
+  fullPositions: Position[],
+  strategy: HalftoneStrategy,
+  grid: GridSize = 5,
+  frameHistory?: Position[][] // For trail strategy
+): DotIntensityMap {
+  const dimensions = toGridDimensions(grid);
+  const intensityMap: DotIntensityMap = new Map();
+
+  // In wrap mode everything is folded onto the grid up front
+  const positions = wrapPositions(fullPositions, dimensions);
+  const history = (frameHistory ?? []).map(frame => wrapPositions(frame, dimensions));
+
+  // Custom strategies own the whole frame
+  if (strategy.type === "custom") {
+    computeCustomIntensities(positions, strategy, dimensions, history).forEach(
+      (intensity, key) => {
+        const [x, y] = key.split(",").map(Number);
+        const cell = resolveCell(x, y, dimensions);
+        if (cell) {
+          intensityMap.set(`${cell.x},${cell.y}`, intensity);
+        }
+      }
+    );
+    return intensityMap;
+  }
 
   // Set all full positions
-  fullPositions.forEach(({ x, y }) => {
-    if (x >= 0 && x < gridSize && y >= 0 && y < gridSize) {
-      stateMap.set(`${x},${y}`, "full");
+  positions.forEach(({ x, y }) => {
+    if (resolveCell(x, y, dimensions)) {
+      intensityMap.set(`${x},${y}`, FULL_INTENSITY);
+    }
+  });
+
+  // Apply halftone strategy to get mid intensities
+  const midIntensities = computeStrategyIntensities(
+    positions,
+    strategy,
+    dimensions,
+    history
+  );
+
+  // Set mid intensities (only if not already full)
+  midIntensities.forEach((intensity, key) => {
+    const [x, y] = key.split(",").map(Number);
+    if (!intensityMap.has(key) && resolveCell(x, y, dimensions)) {
+      intensityMap.set(key, intensity);
+    }
+  });
+
+  return intensityMap;
+}
+
+/**
+ * Number of history frames a strategy reads (0 if it doesn't use history)
+ */
+export function getHalftoneHistoryLength(strategy: HalftoneStrategy): number {
+  switch (strategy.type) {
+    case "trail":
+      return Math.max(0, strategy.length - 1);
+    case "pipeline":
+      return strategy.steps.reduce(
+        (longest, step) => Math.max(longest, getHalftoneHistoryLength(step.strategy)),
+        0
+      );
+    case "custom":
+      return halftoneRegistry.get(strategy.name)?.historyLength ?? 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Stable cache key for a strategy. Custom strategies include their
+ * registration revision so re-registering a name invalidates old results.
+ */
+export function getHalftoneStrategyKey(strategy: HalftoneStrategy): string {
+  switch (strategy.type) {
+    case "pipeline":
+      return `pipeline-[${strategy.steps
+        .map(step => `${step.merge ?? "max"}:${getHalftoneStrategyKey(step.strategy)}`)
+        .join(",")}]`;
+    case "custom": {
+      const revision = halftoneRegistry.get(strategy.name)?.revision ?? 0;
+      return `custom-${strategy.name}@${revision}-${JSON.stringify(strategy.options ?? null)}`;
     }
+    default:
+      return `${strategy.type}-${JSON.stringify(strategy)}`;
+  }
+}
+
+// Registered custom strategies by name
+const halftoneRegistry = new Map<string, RegisteredHalftoneStrategy>();
+let registryRevision = 0;
+
+/**
+ * Registers a custom halftone strategy and returns a typed factory for
+ * strategy objects that can be passed anywhere a HalftoneStrategy is accepted.
+ *
+ * const outline = registerHalftoneStrategy("outline", ({ fullPositions }) => ...);
+ * <Loader halftone={{ strategy: outline() }} />
+ */
+export function registerHalftoneStrategy<TOptions = void>(
+  name: string,
+  handler: HalftoneStrategyHandler<TOptions>,
+  config: { historyLength?: number } = {}
+): (options: TOptions) => CustomHalftoneStrategy {
+  registryRevision += 1;
+  halftoneRegistry.set(name, {
+    handler: handler as HalftoneStrategyHandler<unknown>,
+    historyLength: config.historyLength ?? 0,
+    revision: registryRevision,
   });
 
-  // Apply halftone strategy to get mid positions
-  let midPositions: Position[] = [];
+  return (options: TOptions) =>
+    options === undefined ? { type: "custom", name } : { type: "custom", name, options };
+}
+
+/**
+ * Removes a custom halftone strategy from the registry
+ */
+export function unregisterHalftoneStrategy(name: string): boolean {
+  return halftoneRegistry.delete(name);
+}
+
+/**
+ * Whether a custom halftone strategy is registered under this name
+ */
+export function hasHalftoneStrategy(name: string): boolean {
+  return halftoneRegistry.has(name);
+}
+
+/**
+ * Dispatches a single strategy to its halftone intensities (full positions excluded)
+ */
+function computeStrategyIntensities(
+  fullPositions: Position[],
+  strategy: HalftoneStrategy,
+  dimensions: GridDimensions,
+  frameHistory: Position[][]
+): DotIntensityMap {
+  let midIntensities: DotIntensityMap;
 
   switch (strategy.type) {
     case "neighbors":
-      midPositions = applyNeighborHalftones(
+      midIntensities = computeNeighborIntensities(
         fullPositions,
-        gridSize,
+        dimensions,
         strategy.orthogonalOnly ?? false,
         strategy.distance ?? 1
       );
       break;
     case "trail":
-      midPositions = applyTrailHalftones(
+      midIntensities = computeTrailIntensities(
         fullPositions,
-        frameHistory ?? [],
-        strategy.length
+        frameHistory,
+        strategy.length,
+        strategy.decay
       );
       break;
     case "distance":
-      midPositions = applyDistanceHalftones(
+      midIntensities = computeDistanceIntensities(
         fullPositions,
         strategy.radius,
-        gridSize
+        dimensions
       );
       break;
     case "gradient":
-      midPositions = applyGradientHalftones(
+      midIntensities = computeGradientIntensities(
         fullPositions,
-        strategy.direction,
-        gridSize
+        strategy,
+        dimensions
+      );
+      break;
+    case "pipeline":
+      midIntensities = computePipelineIntensities(
+        fullPositions,
+        strategy.steps,
+        dimensions,
+        frameHistory
+      );
+      break;
+    case "custom":
+      midIntensities = computeCustomIntensities(
+        fullPositions,
+        strategy,
+        dimensions,
+        frameHistory
       );
       break;
   }
 
-  // Set mid positions (only if not already full)
-  midPositions.forEach(({ x, y }) => {
-    const key = `${x},${y}`;
-    if (!stateMap.has(key) && x >= 0 && x < gridSize && y >= 0 && y < gridSize) {
-      stateMap.set(key, "mid");
+  return midIntensities;
+}
+
+/**
+ * Custom strategy - runs a registered handler and converts its states to intensities
+ */
+function computeCustomIntensities(
+  fullPositions: Position[],
+  strategy: CustomHalftoneStrategy,
+  dimensions: GridDimensions,
+  frameHistory: Position[][]
+): DotIntensityMap {
+  const registered = halftoneRegistry.get(strategy.name);
+  if (!registered) {
+    throw new Error(`Unknown halftone strategy "${strategy.name}". Register it with registerHalftoneStrategy first.`);
+  }
+
+  const states = registered.handler(
+    {
+      fullPositions,
+      columns: dimensions.columns,
+      rows: dimensions.rows,
+      wrap: dimensions.wrap ?? false,
+      frameHistory: frameHistory.slice(0, registered.historyLength),
+    },
+    strategy.options
+  );
+
+  const intensities: DotIntensityMap = new Map();
+  states.forEach((state, key) => {
+    if (state === "full") intensities.set(key, FULL_INTENSITY);
+    if (state === "mid") intensities.set(key, MID_INTENSITY);
+  });
+
+  return intensities;
+}
+
+// Cache of intermediate pipeline step results, shared across loaders
+const PIPELINE_CACHE_LIMIT = 200;
+const pipelineCache = new Map<string, DotIntensityMap>();
+
+/**
+ * Pipeline strategy - chains strategies and merges their results step by step
+ */
+export function computePipelineIntensities(
+  fullPositions: Position[],
+  steps: HalftonePipelineStep[],
+  grid: GridSize,
+  frameHistory: Position[][] = []
+): DotIntensityMap {
+  const dimensions = toGridDimensions(grid);
+  const positionsKey = serializePositions(fullPositions);
+
+  return steps.reduce<DotIntensityMap>((merged, step) => {
+    const stepIntensities = getCachedStepIntensities(
+      fullPositions,
+      positionsKey,
+      step.strategy,
+      dimensions,
+      frameHistory
+    );
+    return mergeIntensities(merged, stepIntensities, step.merge ?? "max");
+  }, new Map());
+}
+
+/**
+ * Combines two intensity maps with a merge rule without mutating either input
+ */
+export function mergeIntensities(
+  base: DotIntensityMap,
+  layer: DotIntensityMap,
+  rule: HalftoneMergeRule
+): DotIntensityMap {
+  const merged: DotIntensityMap = new Map();
+
+  switch (rule) {
+    case "max":
+      base.forEach((intensity, key) => merged.set(key, intensity));
+      layer.forEach((intensity, key) => setMaxIntensity(merged, key, intensity));
+      break;
+    case "union":
+      base.forEach((intensity, key) => merged.set(key, intensity));
+      layer.forEach((intensity, key) => {
+        if (!merged.has(key)) merged.set(key, intensity);
+      });
+      break;
+    case "subtract":
+      base.forEach((intensity, key) => {
+        if (!layer.has(key)) merged.set(key, intensity);
+      });
+      break;
+    case "mask":
+      base.forEach((intensity, key) => {
+        if (layer.has(key)) merged.set(key, intensity);
+      });
+      break;
+  }
+
+  return merged;
+}
+
+/**
+ * Helper: Look up or compute one pipeline step, keyed by its inputs
+ */
+function getCachedStepIntensities(
+  fullPositions: Position[],
+  positionsKey: string,
+  strategy: HalftoneStrategy,
+  dimensions: GridDimensions,
+  frameHistory: Position[][]
+): DotIntensityMap {
+  // Only strategies that read history need it in the key
+  const historyLength = getHalftoneHistoryLength(strategy);
+  const historyKey = frameHistory
+    .slice(0, historyLength)
+    .map(serializePositions)
+    .join("|");
+  const cacheKey = `${getHalftoneStrategyKey(strategy)}#${dimensions.columns}x${dimensions.rows}${dimensions.wrap ? "-wrap" : ""}#${positionsKey}#${historyKey}`;
+
+  const cached = pipelineCache.get(cacheKey);
+  if (cached) return cached;
+
+  const intensities = computeStrategyIntensities(fullPositions, strategy, dimensions, frameHistory);
+  pipelineCache.set(cacheKey, intensities);
+
+  // Limit cache size to prevent memory leaks
+  if (pipelineCache.size > PIPELINE_CACHE_LIMIT) {
+    const firstKey = pipelineCache.keys().next().value;
+    if (firstKey) {
+      pipelineCache.delete(firstKey);
+    }
+  }
+
+  return intensities;
+}
+
+/**
+ * Quantizes a single intensity into the tri-state view
+ */
+export function quantizeIntensity(intensity: number): DotState {
+  if (intensity >= FULL_INTENSITY) return "full";
+  if (intensity > 0) return "mid";
+  return "empty";
+}
+
+/**
+ * Quantizes an intensity map into the tri-state view used by Loader and ActorsRunCard
+ */
+export function quantizeIntensities(intensities: DotIntensityMap): Map<string, DotState> {
+  const stateMap = new Map<string, DotState>();
+
+  intensities.forEach((intensity, key) => {
+    const state = quantizeIntensity(intensity);
+    if (state !== "empty") {
+      stateMap.set(key, state);
     }
   });
 
@@ -80,30 +544,44 @@ export function generateHalftoneStates(
  */
 export function applyNeighborHalftones(
   positions: Position[],
-  gridSize: number,
+  grid: GridSize,
   orthogonalOnly: boolean = false,
   distance: number = 1
 ): Position[] {
-  const midPositions: Position[] = [];
-  const fullSet = new Set(positions.map(p => `${p.x},${p.y}`));
+  return intensityKeysToPositions(
+    computeNeighborIntensities(positions, grid, orthogonalOnly, distance)
+  );
+}
 
-  positions.forEach(({ x, y }) => {
-    const neighbors = getNeighbors(x, y, gridSize, distance, orthogonalOnly);
+/**
+ * Neighbors strategy intensities - each ring further out gets a lower level
+ */
+export function computeNeighborIntensities(
+  positions: Position[],
+  grid: GridSize,
+  orthogonalOnly: boolean = false,
+  distance: number = 1
+): DotIntensityMap {
+  const dimensions = toGridDimensions(grid);
+  const cells = wrapPositions(positions, dimensions);
+  const intensities: DotIntensityMap = new Map();
+  const fullSet = new Set(cells.map(p => `${p.x},${p.y}`));
+
+  cells.forEach(full => {
+    const neighbors = getNeighbors(full.x, full.y, dimensions, distance, orthogonalOnly);
 
     neighbors.forEach(neighbor => {
       const key = `${neighbor.x},${neighbor.y}`;
-      if (!fullSet.has(key)) {
-        midPositions.push(neighbor);
-      }
+      if (fullSet.has(key)) return;
+
+      // Ring number is the Chebyshev distance from the full position
+      const delta = gridDelta(full, neighbor, dimensions);
+      const ring = Math.max(Math.abs(delta.x), Math.abs(delta.y));
+      setMaxIntensity(intensities, key, falloff(ring, distance));
     });
   });
 
-  // Deduplicate
-  const uniqueSet = new Set(midPositions.map(p => `${p.x},${p.y}`));
-  return Array.from(uniqueSet).map(key => {
-    const [x, y] = key.split(",").map(Number);
-    return { x, y };
-  });
+  return intensities;
 }
 
 /**
@@ -112,29 +590,43 @@ export function applyNeighborHalftones(
 export function applyTrailHalftones(
   currentPositions: Position[],
   previousFrames: Position[][],
-  length: number
+  length: number,
+  decay: TrailDecay = "linear"
 ): Position[] {
+  return intensityKeysToPositions(
+    computeTrailIntensities(currentPositions, previousFrames, length, decay)
+  );
+}
+
+/**
+ * Trail strategy intensities - older frames get a lower level.
+ * Where trails from different ages overlap, the stronger level wins.
+ */
+export function computeTrailIntensities(
+  currentPositions: Position[],
+  previousFrames: Position[][],
+  length: number,
+  decay: TrailDecay = "linear"
+): DotIntensityMap {
   const fullSet = new Set(currentPositions.map(p => `${p.x},${p.y}`));
-  const trailPositions: Position[] = [];
+  const intensities: DotIntensityMap = new Map();
 
-  // Take up to 'length' previous frames
-  const frames = previousFrames.slice(0, length);
+  // Take up to 'length' frames, the current one included
+  const frames = previousFrames.slice(0, length - 1);
+
+  frames.forEach((frame, age) => {
+    const intensity = getTrailLevel(age, length, decay);
+    if (intensity <= 0) return;
 
-  frames.forEach(frame => {
     frame.forEach(pos => {
       const key = `${pos.x},${pos.y}`;
       if (!fullSet.has(key)) {
-        trailPositions.push(pos);
+        setMaxIntensity(intensities, key, intensity);
       }
     });
   });
 
-  // Deduplicate
-  const uniqueSet = new Set(trailPositions.map(p => `${p.x},${p.y}`));
-  return Array.from(uniqueSet).map(key => {
-    const [x, y] = key.split(",").map(Number);
-    return { x, y };
-  });
+  return intensities;
 }
 
 /**
@@ -143,30 +635,49 @@ export function applyTrailHalftones(
 export function applyDistanceHalftones(
   positions: Position[],
   radius: number,
-  gridSize: number
+  grid: GridSize
 ): Position[] {
-  const fullSet = new Set(positions.map(p => `${p.x},${p.y}`));
-  const midPositions: Position[] = [];
+  return intensityKeysToPositions(
+    computeDistanceIntensities(positions, radius, grid)
+  );
+}
+
+/**
+ * Distance strategy intensities - level falls off with distance to the nearest full position
+ */
+export function computeDistanceIntensities(
+  positions: Position[],
+  radius: number,
+  grid: GridSize
+): DotIntensityMap {
+  const dimensions = toGridDimensions(grid);
+  const { columns, rows } = dimensions;
+  const cells = wrapPositions(positions, dimensions);
+  const fullSet = new Set(cells.map(p => `${p.x},${p.y}`));
+  const intensities: DotIntensityMap = new Map();
 
   // Check every grid position
-  for (let y = 0; y < gridSize; y++) {
-    for (let x = 0; x < gridSize; x++) {
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
       const key = `${x},${y}`;
       if (fullSet.has(key)) continue; // Skip full positions
 
-      // Check if within radius of any full position
-      const withinRadius = positions.some(full => {
-        const dist = euclideanDistance({ x, y }, full);
-        return dist <= radius && dist > 0;
+      // Find the nearest full position within radius
+      let nearest = Infinity;
+      cells.forEach(full => {
+        const dist = vectorLength(gridDelta(full, { x, y }, dimensions));
+        if (dist <= radius && dist > 0 && dist < nearest) {
+          nearest = dist;
+        }
       });
 
-      if (withinRadius) {
-        midPositions.push({ x, y });
+      if (nearest !== Infinity) {
+        intensities.set(key, falloff(nearest, radius));
       }
     }
   }
 
-  return midPositions;
+  return intensities;
 }
 
 /**
@@ -174,21 +685,68 @@ export function applyDistanceHalftones(
  */
 export function applyGradientHalftones(
   positions: Position[],
-  direction: "outward" | "inward",
-  gridSize: number
+  direction: "outward" | "inward" | GradientOptions,
+  grid: GridSize
 ): Position[] {
-  const centroid = getCentroid(positions);
-  const midPositions: Position[] = [];
+  return intensityKeysToPositions(
+    computeGradientIntensities(positions, direction, grid)
+  );
+}
+
+/**
+ * Gradient strategy intensities. Radial modes put every gradient dot at the
+ * mid level; directional and light modes scale it by how well the dot lines
+ * up with the gradient axis.
+ */
+export function computeGradientIntensities(
+  positions: Position[],
+  direction: "outward" | "inward" | GradientOptions,
+  grid: GridSize
+): DotIntensityMap {
+  const options: GradientOptions = typeof direction === "string" ? { direction } : direction;
+  const cells = wrapPositions(positions, grid);
+
+  switch (options.direction) {
+    case "outward":
+    case "inward":
+      return computeRadialGradientIntensities(
+        cells,
+        options.direction,
+        options.anchor ?? getCentroid(cells),
+        grid
+      );
+    case "directional": {
+      const axis = normalizeVector(options.vector ?? angleToVector(options.angle ?? 0));
+      return computeAxisGradientIntensities(cells, grid, () => axis);
+    }
+    case "light":
+      // Light travels from the source through each full dot, so the far side is shaded
+      return computeAxisGradientIntensities(cells, grid, full =>
+        normalizeVector({ x: full.x - options.source.x, y: full.y - options.source.y })
+      );
+  }
+}
+
+/**
+ * Helper: Radial gradient - neighbors farther from (outward) or closer to (inward) the anchor
+ */
+function computeRadialGradientIntensities(
+  positions: Position[],
+  direction: "outward" | "inward",
+  anchor: Position,
+  grid: GridSize
+): DotIntensityMap {
+  const intensities: DotIntensityMap = new Map();
 
   // Get neighbors of all full positions
-  const neighbors = applyNeighborHalftones(positions, gridSize, false, 1);
+  const neighbors = applyNeighborHalftones(positions, grid, false, 1);
 
   neighbors.forEach(neighbor => {
-    const distFromCenter = euclideanDistance(neighbor, centroid);
+    const distFromCenter = euclideanDistance(neighbor, anchor);
 
     // Check if any full position is closer/farther from center
     const hasFullInDirection = positions.some(full => {
-      const fullDist = euclideanDistance(full, centroid);
+      const fullDist = euclideanDistance(full, anchor);
       if (direction === "outward") {
         return fullDist < distFromCenter;
       } else {
@@ -197,11 +755,43 @@ export function applyGradientHalftones(
     });
 
     if (hasFullInDirection) {
-      midPositions.push(neighbor);
+      intensities.set(`${neighbor.x},${neighbor.y}`, MID_INTENSITY);
     }
   });
 
-  return midPositions;
+  return intensities;
+}
+
+/**
+ * Helper: Axis gradient - neighbors that lie along the axis from an adjacent full dot.
+ * `getAxis` returns a unit vector per full dot, or a zero vector to skip it.
+ */
+function computeAxisGradientIntensities(
+  positions: Position[],
+  grid: GridSize,
+  getAxis: (full: Position) => Position
+): DotIntensityMap {
+  const dimensions = toGridDimensions(grid);
+  const cells = wrapPositions(positions, dimensions);
+  const fullSet = new Set(cells.map(p => `${p.x},${p.y}`));
+  const intensities: DotIntensityMap = new Map();
+
+  cells.forEach(full => {
+    const axis = getAxis(full);
+
+    getNeighbors(full.x, full.y, dimensions).forEach(neighbor => {
+      const key = `${neighbor.x},${neighbor.y}`;
+      if (fullSet.has(key)) return;
+
+      const offset = normalizeVector(gridDelta(full, neighbor, dimensions));
+      const alignment = offset.x * axis.x + offset.y * axis.y;
+      if (alignment > ALIGNMENT_EPSILON) {
+        setMaxIntensity(intensities, key, MID_INTENSITY * alignment);
+      }
+    });
+  });
+
+  return intensities;
 }
 
 /**
@@ -210,7 +800,7 @@ export function applyGradientHalftones(
 function getNeighbors(
   x: number,
   y: number,
-  gridSize: number,
+  dimensions: GridDimensions,
   distance: number = 1,
   orthogonalOnly: boolean = false
 ): Position[] {
@@ -227,9 +817,10 @@ function getNeighbors(
       const nx = x + dx;
       const ny = y + dy;
 
-      // Check bounds
-      if (nx >= 0 && nx < gridSize && ny >= 0 && ny < gridSize) {
-        neighbors.push({ x: nx, y: ny });
+      // Check bounds (or wrap around them)
+      const cell = resolveCell(nx, ny, dimensions);
+      if (cell) {
+        neighbors.push(cell);
       }
     }
   }
@@ -237,6 +828,171 @@ function getNeighbors(
   return neighbors;
 }
 
+/**
+ * Normalizes a square grid size or explicit dimensions
+ */
+export function toGridDimensions(grid: GridSize): GridDimensions {
+  return typeof grid === "number" ? { columns: grid, rows: grid } : grid;
+}
+
+/**
+ * Folds positions onto the grid when it wraps; returns them untouched otherwise
+ */
+export function wrapPositions(positions: Position[], grid: GridSize): Position[] {
+  const dimensions = toGridDimensions(grid);
+  if (!dimensions.wrap) return positions;
+
+  return positions.map(({ x, y }) => ({
+    x: wrapCoordinate(x, dimensions.columns),
+    y: wrapCoordinate(y, dimensions.rows),
+  }));
+}
+
+/**
+ * Drops positions outside the grid, or folds them back in when it wraps
+ */
+export function clipPositions(positions: Position[], grid: GridSize): Position[] {
+  const dimensions = toGridDimensions(grid);
+  const clipped: Position[] = [];
+
+  positions.forEach(({ x, y }) => {
+    const cell = resolveCell(x, y, dimensions);
+    if (cell) clipped.push(cell);
+  });
+
+  return clipped;
+}
+
+/**
+ * Removes repeated positions, keeping the first occurrence
+ */
+export function dedupePositions(positions: Position[]): Position[] {
+  const seen = new Set<string>();
+  return positions.filter(({ x, y }) => {
+    const key = `${x},${y}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Helper: The grid cell a position lands on - wrapped in wrap mode,
+ * null when it falls outside a clipping grid
+ */
+function resolveCell(x: number, y: number, dimensions: GridDimensions): Position | null {
+  if (dimensions.wrap) {
+    return { x: wrapCoordinate(x, dimensions.columns), y: wrapCoordinate(y, dimensions.rows) };
+  }
+  if (x >= 0 && x < dimensions.columns && y >= 0 && y < dimensions.rows) {
+    return { x, y };
+  }
+  return null;
+}
+
+/**
+ * Helper: Modulo that stays positive for negative coordinates
+ */
+function wrapCoordinate(value: number, size: number): number {
+  return ((value % size) + size) % size;
+}
+
+/**
+ * Helper: Offset from one cell to another, taking the short way across the seam in wrap mode
+ */
+function gridDelta(from: Position, to: Position, dimensions: GridDimensions): Position {
+  let dx = to.x - from.x;
+  let dy = to.y - from.y;
+
+  if (dimensions.wrap) {
+    dx = wrapCoordinate(dx, dimensions.columns);
+    dy = wrapCoordinate(dy, dimensions.rows);
+    if (dx > dimensions.columns / 2) dx -= dimensions.columns;
+    if (dy > dimensions.rows / 2) dy -= dimensions.rows;
+  }
+
+  return { x: dx, y: dy };
+}
+
+/**
+ * Helper: Linear falloff so that step `reach` still stays above 0
+ * (distance 1 with reach 1 lands exactly on MID_INTENSITY)
+ */
+function falloff(step: number, reach: number): number {
+  return Math.max(0, 1 - step / (reach + 1));
+}
+
+/**
+ * Trail level for a frame `age` steps back (0 = the previous frame).
+ * `length` counts the current frame, so only `length - 1` previous frames get a level.
+ */
+export function getTrailLevel(age: number, length: number, decay: TrailDecay = "linear"): number {
+  const previousFrames = length - 1;
+  if (age < 0 || age >= previousFrames) return 0;
+
+  if (decay === "linear") {
+    return falloff(age + 1, previousFrames);
+  }
+  if (decay === "exponential") {
+    return Math.pow(0.5, age + 1);
+  }
+  if (decay.type === "exponential") {
+    return Math.pow(Math.max(0, Math.min(MAX_TRAIL_LEVEL, decay.rate)), age + 1);
+  }
+  return Math.max(0, Math.min(MAX_TRAIL_LEVEL, decay.stops[age] ?? 0));
+}
+
+/**
+ * Helper: Keep the stronger of two intensities for the same key
+ */
+function setMaxIntensity(intensities: DotIntensityMap, key: string, intensity: number) {
+  const existing = intensities.get(key) ?? 0;
+  if (intensity > existing) {
+    intensities.set(key, intensity);
+  }
+}
+
+/**
+ * Helper: Stable string form of a position list, used in cache keys
+ */
+function serializePositions(positions: Position[]): string {
+  return positions.map(p => `${p.x},${p.y}`).join(";");
+}
+
+/**
+ * Helper: Convert intensity map keys back to positions
+ */
+function intensityKeysToPositions(intensities: DotIntensityMap): Position[] {
+  return Array.from(intensities.keys()).map(key => {
+    const [x, y] = key.split(",").map(Number);
+    return { x, y };
+  });
+}
+
+/**
+ * Helper: Unit vector pointing at `angle` degrees (0 = right, 90 = down)
+ */
+function angleToVector(angle: number): Position {
+  const radians = (angle * Math.PI) / 180;
+  return { x: Math.cos(radians), y: Math.sin(radians) };
+}
+
+/**
+ * Helper: Length of a vector
+ */
+function vectorLength(vector: Position): number {
+  return Math.sqrt(vector.x * vector.x + vector.y * vector.y);
+}
+
+/**
+ * Helper: Scale a vector to length 1 (zero vectors stay zero)
+ */
+function normalizeVector(vector: Position): Position {
+  const length = vectorLength(vector);
+  if (length === 0) return { x: 0, y: 0 };
+  return { x: vector.x / length, y: vector.y / length };
+}
+
 /**
  * Helper: Calculate Euclidean distance between two positions
  */
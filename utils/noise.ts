@@ -0,0 +1,296 @@
+import { toGridDimensions, type DotState, type GridSize, type Position } from "./halftone";
+import { createRandom } from "./random";
+
+export type NoiseType = "value" | "simplex";
+
+/**
+ * How the field changes over time:
+ * - evolve: samples 3D noise with time as the third axis, so shapes morph in place
+ * - drift: slides a 2D field along a direction (degrees, 0° = right, 90° = down)
+ */
+export type NoiseMotion = { type: "evolve" } | { type: "drift"; angle?: number };
+
+export interface NoiseOptions {
+  grid: GridSize;
+  frames: number;
+  seed?: number; // Same seed, same frames (default 1)
+  type?: NoiseType; // Default "simplex"
+  motion?: NoiseMotion; // Default { type: "evolve" }
+  scale?: number; // Noise units per dot, smaller means larger blobs (default 0.35)
+  speed?: number; // Noise units per frame (default 0.12)
+  octaves?: number; // Layers of finer detail (default 1)
+  persistence?: number; // Amplitude kept by each extra octave (default 0.5)
+  bands?: { full: number; mid: number }; // Lower bounds in 0..1 for full and mid dots (default 0.62 / 0.48)
+  loop?: boolean; // Make the frames periodic, so the last one flows back into the first
+}
+
+/**
+ * One frame of the field, split into full and mid dots
+ */
+export interface NoiseFrame {
+  full: Position[];
+  mid: Position[];
+}
+
+export type Noise2D = (x: number, y: number) => number;
+export type Noise3D = (x: number, y: number, z: number) => number;
+
+// Skew factors for the simplex lattice
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+// Gradient directions for simplex noise (the 12 cube edge midpoints)
+const GRADIENTS_3D = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+/**
+ * Seeded 2D noise in roughly -1..1
+ */
+export function createNoise2D(seed: number, type: NoiseType = "simplex"): Noise2D {
+  if (type === "value") {
+    const noise = createNoise3D(seed, type);
+    return (x, y) => noise(x, y, 0);
+  }
+  return createSimplex2D(createPermutation(seed));
+}
+
+/**
+ * Seeded 3D noise in roughly -1..1
+ */
+export function createNoise3D(seed: number, type: NoiseType = "simplex"): Noise3D {
+  const permutation = createPermutation(seed);
+  return type === "value" ? createValue3D(permutation, seed) : createSimplex3D(permutation);
+}
+
+/**
+ * Samples the noise field over time and thresholds it into full and mid dots.
+ * With `loop`, each frame cross-fades toward the field one period earlier, so the
+ * frame after the last would be exactly the first one again.
+ */
+export function generateNoiseFrames({
+  grid,
+  frames,
+  seed = 1,
+  type = "simplex",
+  motion = { type: "evolve" },
+  scale = 0.35,
+  speed = 0.12,
+  octaves = 1,
+  persistence = 0.5,
+  bands = { full: 0.62, mid: 0.48 },
+  loop = false,
+}: NoiseOptions): NoiseFrame[] {
+  const { columns, rows } = toGridDimensions(grid);
+  const sample = createFieldSampler(seed, type, motion, speed);
+
+  // Octaves summed and normalized back into roughly -1..1
+  const field = (x: number, y: number, frame: number) => {
+    let value = 0;
+    let amplitude = 1;
+    let frequency = scale;
+    let total = 0;
+
+    for (let octave = 0; octave < Math.max(1, octaves); octave++) {
+      value += sample(x * frequency, y * frequency, frame, octave) * amplitude;
+      total += amplitude;
+      amplitude *= persistence;
+      frequency *= 2;
+    }
+
+    return value / total;
+  };
+
+  return Array.from({ length: frames }, (_, frame) => {
+    const full: Position[] = [];
+    const mid: Position[] = [];
+    // Dividing by the blend's spread keeps the contrast even halfway through the fade
+    const blend = loop ? frame / frames : 0;
+    const spread = Math.hypot(1 - blend, blend);
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < columns; x++) {
+        const value =
+          blend > 0
+            ? ((1 - blend) * field(x, y, frame) + blend * field(x, y, frame - frames)) / spread
+            : field(x, y, frame);
+
+        // Fold -1..1 into 0..1 before applying the bands
+        const level = (value + 1) / 2;
+        if (level >= bands.full) full.push({ x, y });
+        else if (level >= bands.mid) mid.push({ x, y });
+      }
+    }
+
+    return { full, mid };
+  });
+}
+
+/**
+ * The full dots of each frame, ready to use as an `animationPath`
+ */
+export function noisePath(frames: NoiseFrame[]): Position[][] {
+  return frames.map((frame) => frame.full);
+}
+
+/**
+ * Per-frame dot states for Loader's `animationStates`
+ */
+export function noiseStates(frames: NoiseFrame[]): Map<string, DotState>[] {
+  return frames.map(({ full, mid }) => {
+    const states = new Map<string, DotState>();
+    mid.forEach(({ x, y }) => states.set(`${x},${y}`, "mid"));
+    full.forEach(({ x, y }) => states.set(`${x},${y}`, "full"));
+    return states;
+  });
+}
+
+/**
+ * Helper: Sampler for a point at a given frame. Each octave is offset so layers don't line up.
+ */
+function createFieldSampler(
+  seed: number,
+  type: NoiseType,
+  motion: NoiseMotion,
+  speed: number
+): (x: number, y: number, frame: number, octave: number) => number {
+  if (motion.type === "evolve") {
+    const noise = createNoise3D(seed, type);
+    return (x, y, frame, octave) => noise(x + octave * 17.3, y + octave * 31.7, frame * speed);
+  }
+
+  const noise = createNoise2D(seed, type);
+  const radians = ((motion.angle ?? 0) * Math.PI) / 180;
+  // Moving the field one way means sampling further back along the other
+  const dx = -Math.cos(radians) * speed;
+  const dy = -Math.sin(radians) * speed;
+  return (x, y, frame, octave) => noise(x + frame * dx + octave * 17.3, y + frame * dy + octave * 31.7);
+}
+
+/**
+ * Helper: Seeded shuffle of 0..255, doubled to avoid index wrapping
+ */
+function createPermutation(seed: number): Uint8Array {
+  const random = createRandom(seed);
+  const values = Array.from({ length: 256 }, (_, index) => index);
+  for (let index = values.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [values[index], values[swap]] = [values[swap], values[index]];
+  }
+  return Uint8Array.from([...values, ...values]);
+}
+
+/**
+ * Helper: Lattice value noise with smoothstep interpolation
+ */
+function createValue3D(permutation: Uint8Array, seed: number): Noise3D {
+  const random = createRandom(seed ^ 0x9e3779b9);
+  const lattice = Float32Array.from({ length: 256 }, () => random() * 2 - 1);
+  const valueAt = (x: number, y: number, z: number) =>
+    lattice[permutation[permutation[permutation[x & 255] + (y & 255)] + (z & 255)]];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  return (x, y, z) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const z0 = Math.floor(z);
+    const tx = smooth(x - x0);
+    const ty = smooth(y - y0);
+    const tz = smooth(z - z0);
+
+    const front = lerp(
+      lerp(valueAt(x0, y0, z0), valueAt(x0 + 1, y0, z0), tx),
+      lerp(valueAt(x0, y0 + 1, z0), valueAt(x0 + 1, y0 + 1, z0), tx),
+      ty
+    );
+    const back = lerp(
+      lerp(valueAt(x0, y0, z0 + 1), valueAt(x0 + 1, y0, z0 + 1), tx),
+      lerp(valueAt(x0, y0 + 1, z0 + 1), valueAt(x0 + 1, y0 + 1, z0 + 1), tx),
+      ty
+    );
+    return lerp(front, back, tz);
+  };
+}
+
+/**
+ * Helper: 2D simplex noise (Gustavson's reference implementation)
+ */
+function createSimplex2D(permutation: Uint8Array): Noise2D {
+  return (x, y) => {
+    const skew = (x + y) * F2;
+    const i = Math.floor(x + skew);
+    const j = Math.floor(y + skew);
+    const unskew = (i + j) * G2;
+    const x0 = x - (i - unskew);
+    const y0 = y - (j - unskew);
+    const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+
+    const corners = [
+      [x0, y0, 0, 0],
+      [x0 - i1 + G2, y0 - j1 + G2, i1, j1],
+      [x0 - 1 + 2 * G2, y0 - 1 + 2 * G2, 1, 1],
+    ];
+
+    let total = 0;
+    corners.forEach(([cx, cy, di, dj]) => {
+      const falloff = 0.5 - cx * cx - cy * cy;
+      if (falloff <= 0) return;
+      const gradient = GRADIENTS_3D[permutation[((i + di) & 255) + permutation[(j + dj) & 255]] % 12];
+      total += falloff ** 4 * (gradient[0] * cx + gradient[1] * cy);
+    });
+
+    return 70 * total;
+  };
+}
+
+/**
+ * Helper: 3D simplex noise (Gustavson's reference implementation)
+ */
+function createSimplex3D(permutation: Uint8Array): Noise3D {
+  return (x, y, z) => {
+    const skew = (x + y + z) * F3;
+    const i = Math.floor(x + skew);
+    const j = Math.floor(y + skew);
+    const k = Math.floor(z + skew);
+    const unskew = (i + j + k) * G3;
+    const x0 = x - (i - unskew);
+    const y0 = y - (j - unskew);
+    const z0 = z - (k - unskew);
+
+    // Pick the simplex (one of six tetrahedra) the point falls in
+    let offsets: [number, number, number, number, number, number];
+    if (x0 >= y0) {
+      if (y0 >= z0) offsets = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) offsets = [1, 0, 0, 1, 0, 1];
+      else offsets = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) offsets = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) offsets = [0, 1, 0, 0, 1, 1];
+      else offsets = [0, 1, 0, 1, 1, 0];
+    }
+    const [i1, j1, k1, i2, j2, k2] = offsets;
+
+    const corners = [
+      [x0, y0, z0, 0, 0, 0],
+      [x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3, i1, j1, k1],
+      [x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3, i2, j2, k2],
+      [x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3, 1, 1, 1],
+    ];
+
+    let total = 0;
+    corners.forEach(([cx, cy, cz, di, dj, dk]) => {
+      const falloff = 0.6 - cx * cx - cy * cy - cz * cz;
+      if (falloff <= 0) return;
+      const index = permutation[((i + di) & 255) + permutation[((j + dj) & 255) + permutation[(k + dk) & 255]]];
+      const gradient = GRADIENTS_3D[index % 12];
+      total += falloff ** 4 * (gradient[0] * cx + gradient[1] * cy + gradient[2] * cz);
+    });
+
+    return 32 * total;
+  };
+}
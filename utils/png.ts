@@ -0,0 +1,216 @@
+import type { GrayscaleBitmap } from "./dither";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Channels per pixel for each PNG color type
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+/**
+ * Decodes a (non-interlaced) PNG into a grayscale bitmap.
+ * Uses the platform DecompressionStream, so it runs in the browser and in Node 18+ without dependencies.
+ * Transparent pixels are composited over white.
+ */
+export async function decodePng(bytes: Uint8Array): Promise<GrayscaleBitmap> {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    throw new Error("Not a PNG file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const compressed: Uint8Array[] = [];
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataOffset = offset + 8;
+    const data = bytes.subarray(dataOffset, dataOffset + length);
+    offset = dataOffset + length + 4; // Skip the CRC
+
+    if (type === "IHDR") {
+      header = {
+        width: view.getUint32(dataOffset),
+        height: view.getUint32(dataOffset + 4),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlace: data[12],
+      };
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      compressed.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error("PNG is missing its IHDR chunk");
+  }
+  if (header.interlace !== 0) {
+    throw new Error("Interlaced PNGs are not supported");
+  }
+  const channels = CHANNELS_BY_COLOR_TYPE[header.colorType];
+  if (channels === undefined) {
+    throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+  }
+  if (header.colorType === 3 && !palette) {
+    throw new Error("Palette PNG is missing its PLTE chunk");
+  }
+
+  const { width, height, bitDepth, colorType } = header;
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const pixels = unfilterScanlines(await inflate(concatBytes(compressed)), stride, height, bytesPerPixel);
+
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const readSample = (row: number, sampleIndex: number): number => {
+    const rowOffset = row * stride;
+    if (bitDepth === 16) return pixels[rowOffset + sampleIndex * 2];
+    if (bitDepth === 8) return pixels[rowOffset + sampleIndex];
+    const bitOffset = sampleIndex * bitDepth;
+    const byte = pixels[rowOffset + (bitOffset >> 3)];
+    return (byte >> (8 - bitDepth - (bitOffset & 7))) & maxSample;
+  };
+  // 16-bit samples already read their high byte, lower depths are scaled up to 0..255
+  const scale = (sample: number) => (bitDepth === 16 ? sample : Math.round((sample * 255) / maxSample));
+
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const base = x * channels;
+      let gray: number;
+      let alpha = 255;
+
+      switch (colorType) {
+        case 0:
+          gray = scale(readSample(y, base));
+          break;
+        case 2:
+          gray = luminance(scale(readSample(y, base)), scale(readSample(y, base + 1)), scale(readSample(y, base + 2)));
+          break;
+        case 3: {
+          const index = readSample(y, base);
+          gray = luminance(palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2]);
+          alpha = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4:
+          gray = scale(readSample(y, base));
+          alpha = scale(readSample(y, base + 1));
+          break;
+        default:
+          gray = luminance(scale(readSample(y, base)), scale(readSample(y, base + 1)), scale(readSample(y, base + 2)));
+          alpha = scale(readSample(y, base + 3));
+      }
+
+      data[y * width + x] = Math.round((gray * alpha + 255 * (255 - alpha)) / 255);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Helper: Inflate a zlib stream with the built-in DecompressionStream
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Helper: Reverse the per-scanline filters (None, Sub, Up, Average, Paeth)
+ */
+function unfilterScanlines(raw: Uint8Array, stride: number, height: number, bytesPerPixel: number): Uint8Array {
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const target = y * stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? pixels[target + i - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[target - stride + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? pixels[target - stride + i - bytesPerPixel] : 0;
+      let predictor: number;
+
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unknown PNG filter type: ${filter}`);
+      }
+
+      pixels[target + i] = (raw[source + i] + predictor) & 0xff;
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Helper: Paeth predictor from the PNG spec
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+/**
+ * Helper: Rec. 601 luma of an 8-bit RGB triple
+ */
+function luminance(red: number, green: number, blue: number): number {
+  return Math.round(0.299 * red + 0.587 * green + 0.114 * blue);
+}
+
+/**
+ * Helper: Join the IDAT chunks into one buffer
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
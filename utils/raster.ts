@@ -0,0 +1,320 @@
+import {
+  clipPositions,
+  dedupePositions,
+  FULL_INTENSITY,
+  toGridDimensions,
+  type DotIntensityMap,
+  type GridDimensions,
+  type GridSize,
+  type Position,
+} from "./halftone";
+
+/**
+ * Vector shapes in grid coordinates. Integer coordinates are dot centers,
+ * so { x: 2, y: 2 } is the middle of a 5x5 grid. Angles are in degrees,
+ * 0° points right and 90° points down.
+ */
+export type VectorShape =
+  | { type: "line"; from: Position; to: Position; width?: number }
+  | { type: "circle"; center: Position; radius: number; fill?: boolean }
+  | { type: "ring"; center: Position; innerRadius: number; outerRadius: number }
+  | { type: "polygon"; points: Position[]; fill?: boolean }
+  | {
+      type: "arc";
+      center: Position;
+      radius: number;
+      startAngle: number;
+      endAngle: number;
+      thickness?: number; // Stroke width of the arc band (default 1)
+      fill?: boolean; // Fill the pie slice down to the center instead of stroking the rim
+    };
+
+// Half the width of a 1-dot stroke
+const STROKE_HALF_WIDTH = 0.5;
+
+/**
+ * Bresenham line between two dots (endpoints are rounded to the nearest dot)
+ */
+export function rasterizeLine(from: Position, to: Position): Position[] {
+  let x = Math.round(from.x);
+  let y = Math.round(from.y);
+  const endX = Math.round(to.x);
+  const endY = Math.round(to.y);
+  const dx = Math.abs(endX - x);
+  const dy = -Math.abs(endY - y);
+  const stepX = x < endX ? 1 : -1;
+  const stepY = y < endY ? 1 : -1;
+  let error = dx + dy;
+  const positions: Position[] = [];
+
+  while (true) {
+    positions.push({ x, y });
+    if (x === endX && y === endY) break;
+    const doubled = error * 2;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Circle outline, or a disc when filled
+ */
+export function rasterizeCircle(center: Position, radius: number, fill: boolean = false): Position[] {
+  return rasterizeArea({ type: "circle", center, radius, fill });
+}
+
+/**
+ * Band between two radii
+ */
+export function rasterizeRing(center: Position, innerRadius: number, outerRadius: number): Position[] {
+  return rasterizeArea({ type: "ring", center, innerRadius, outerRadius });
+}
+
+/**
+ * Closed polygon outline, or its interior plus outline when filled
+ */
+export function rasterizePolygon(points: Position[], fill: boolean = false): Position[] {
+  const outline = points.flatMap((point, index) => rasterizeLine(point, points[(index + 1) % points.length]));
+  if (!fill) return dedupePositions(outline);
+  return dedupePositions([...outline, ...rasterizeArea({ type: "polygon", points, fill })]);
+}
+
+/**
+ * Arc between two angles (clockwise on screen), stroked along the rim or filled as a pie slice.
+ * The end may be below the start, in which case the arc wraps through 0°.
+ */
+export function rasterizeArc(
+  center: Position,
+  radius: number,
+  startAngle: number,
+  endAngle: number,
+  options: { thickness?: number; fill?: boolean } = {}
+): Position[] {
+  return rasterizeArea({ type: "arc", center, radius, startAngle, endAngle, ...options });
+}
+
+/**
+ * Rasterizes one or more shapes onto a grid, clipping at its bounds (or wrapping when it wraps)
+ */
+export function rasterizeShapes(shapes: VectorShape | VectorShape[], grid: GridSize): Position[] {
+  const list = Array.isArray(shapes) ? shapes : [shapes];
+  return dedupePositions(clipPositions(list.flatMap(rasterizeShape), grid));
+}
+
+/**
+ * Anti-aliased rasterization. Dots the aliased rasterizer would draw stay at full intensity;
+ * every other dot gets its supersampled coverage, which quantizes to the halftone mid state.
+ */
+export function rasterizeAntialiased(
+  shapes: VectorShape | VectorShape[],
+  grid: GridSize,
+  samples: number = 4
+): DotIntensityMap {
+  const list = Array.isArray(shapes) ? shapes : [shapes];
+  const dimensions = toGridDimensions(grid);
+  const intensities: DotIntensityMap = new Map();
+
+  list.forEach((shape) => {
+    const bounds = getShapeBounds(shape);
+
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      for (let x = bounds.minX; x <= bounds.maxX; x++) {
+        const level = getCoverage(shape, x, y, samples);
+        if (level > 0) {
+          setMaxIntensity(intensities, { x, y }, level, dimensions);
+        }
+      }
+    }
+
+    rasterizeShape(shape).forEach((position) => {
+      setMaxIntensity(intensities, position, FULL_INTENSITY, dimensions);
+    });
+  });
+
+  return intensities;
+}
+
+/**
+ * Helper: Aliased rasterization of a single shape, unclipped
+ */
+function rasterizeShape(shape: VectorShape): Position[] {
+  switch (shape.type) {
+    case "line":
+      return rasterizeLine(shape.from, shape.to);
+    case "polygon":
+      return rasterizePolygon(shape.points, shape.fill);
+    default:
+      return rasterizeArea(shape);
+  }
+}
+
+/**
+ * Helper: Every dot whose center lies inside an area shape
+ */
+function rasterizeArea(shape: VectorShape): Position[] {
+  const bounds = getShapeBounds(shape);
+  const positions: Position[] = [];
+
+  for (let y = bounds.minY; y <= bounds.maxY; y++) {
+    for (let x = bounds.minX; x <= bounds.maxX; x++) {
+      if (containsPoint(shape, x, y)) {
+        positions.push({ x, y });
+      }
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Helper: Fraction of a dot's cell covered by the shape, from an n x n grid of samples
+ */
+function getCoverage(shape: VectorShape, x: number, y: number, samples: number): number {
+  let hits = 0;
+  for (let sy = 0; sy < samples; sy++) {
+    for (let sx = 0; sx < samples; sx++) {
+      const px = x - 0.5 + (sx + 0.5) / samples;
+      const py = y - 0.5 + (sy + 0.5) / samples;
+      if (containsPoint(shape, px, py)) hits++;
+    }
+  }
+  return hits / (samples * samples);
+}
+
+/**
+ * Helper: Whether a point lies inside the shape. Strokes are one dot wide unless set otherwise.
+ */
+function containsPoint(shape: VectorShape, px: number, py: number): boolean {
+  switch (shape.type) {
+    case "line":
+      return distanceToSegment(px, py, shape.from, shape.to) <= (shape.width ?? 1) / 2;
+    case "circle": {
+      const distance = Math.hypot(px - shape.center.x, py - shape.center.y);
+      return shape.fill
+        ? distance <= shape.radius + STROKE_HALF_WIDTH
+        : Math.abs(distance - shape.radius) <= STROKE_HALF_WIDTH;
+    }
+    case "ring": {
+      const distance = Math.hypot(px - shape.center.x, py - shape.center.y);
+      return (
+        distance >= shape.innerRadius - STROKE_HALF_WIDTH && distance <= shape.outerRadius + STROKE_HALF_WIDTH
+      );
+    }
+    case "polygon": {
+      const { points } = shape;
+      const nearEdge = points.some(
+        (point, index) => distanceToSegment(px, py, point, points[(index + 1) % points.length]) <= STROKE_HALF_WIDTH
+      );
+      return nearEdge || (!!shape.fill && isInsidePolygon(px, py, points));
+    }
+    case "arc": {
+      const dx = px - shape.center.x;
+      const dy = py - shape.center.y;
+      const distance = Math.hypot(dx, dy);
+      // The center dot has no meaningful angle, so a pie slice always includes it
+      if (shape.fill && distance <= STROKE_HALF_WIDTH) return true;
+
+      const inBand = shape.fill
+        ? distance <= shape.radius + STROKE_HALF_WIDTH
+        : Math.abs(distance - shape.radius) <= (shape.thickness ?? 1) / 2;
+      return inBand && isWithinAngle((Math.atan2(dy, dx) * 180) / Math.PI, shape.startAngle, shape.endAngle);
+    }
+  }
+}
+
+/**
+ * Helper: Integer bounding box that contains every dot the shape can touch
+ */
+function getShapeBounds(shape: VectorShape): { minX: number; minY: number; maxX: number; maxY: number } {
+  let points: Position[];
+  let padding: number;
+
+  switch (shape.type) {
+    case "line":
+      points = [shape.from, shape.to];
+      padding = (shape.width ?? 1) / 2;
+      break;
+    case "polygon":
+      points = shape.points;
+      padding = STROKE_HALF_WIDTH;
+      break;
+    default: {
+      const radius =
+        shape.type === "ring"
+          ? shape.outerRadius
+          : shape.radius + (shape.type === "arc" ? (shape.thickness ?? 1) / 2 : 0);
+      points = [shape.center];
+      padding = radius + STROKE_HALF_WIDTH;
+    }
+  }
+
+  const xs = points.map(({ x }) => x);
+  const ys = points.map(({ y }) => y);
+  return {
+    minX: Math.floor(Math.min(...xs) - padding),
+    minY: Math.floor(Math.min(...ys) - padding),
+    maxX: Math.ceil(Math.max(...xs) + padding),
+    maxY: Math.ceil(Math.max(...ys) + padding),
+  };
+}
+
+/**
+ * Helper: Whether an angle falls between start and end, going clockwise.
+ * An end below the start wraps through 0° (300° to 30° covers 90°); spans of 360° or more are full circles.
+ */
+function isWithinAngle(angle: number, startAngle: number, endAngle: number): boolean {
+  if (endAngle - startAngle >= 360) return true;
+  const span = (((endAngle - startAngle) % 360) + 360) % 360;
+  const offset = (((angle - startAngle) % 360) + 360) % 360;
+  return offset <= span;
+}
+
+/**
+ * Helper: Even-odd point in polygon test
+ */
+function isInsidePolygon(px: number, py: number, points: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > py !== b.y > py && px < ((b.x - a.x) * (py - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Helper: Distance from a point to a line segment
+ */
+function distanceToSegment(px: number, py: number, from: Position, to: Position): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - from.x) * dx + (py - from.y) * dy) / lengthSquared));
+  return Math.hypot(px - (from.x + t * dx), py - (from.y + t * dy));
+}
+
+/**
+ * Helper: Clip a dot onto the grid and keep its highest level
+ */
+function setMaxIntensity(
+  intensities: DotIntensityMap,
+  position: Position,
+  level: number,
+  dimensions: GridDimensions
+) {
+  const [cell] = clipPositions([position], dimensions);
+  if (!cell) return;
+  const key = `${cell.x},${cell.y}`;
+  intensities.set(key, Math.max(intensities.get(key) ?? 0, level));
+}
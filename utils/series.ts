@@ -0,0 +1,176 @@
+export type SeriesAggregation = "average" | "max" | "last";
+
+export type SeriesScale = "linear" | "log";
+
+export interface ResampleOptions {
+  aggregation?: SeriesAggregation; // How samples sharing a column combine (default "average")
+  timestamps?: (number | Date)[]; // Sample times, same length as the series; columns then span equal time
+}
+
+/**
+ * Range of samples behind one column, in timestamp milliseconds or sample indices
+ */
+export interface ColumnSpan {
+  start: number;
+  end: number;
+}
+
+export interface ScaleOptions {
+  scale?: SeriesScale; // Default "linear"
+  min?: number; // Value drawn at the bottom (default min(0, lowest value))
+  max?: number; // Value drawn at the top (default highest value)
+}
+
+// The log scale covers three decades of the range (1/1000 of it up to all of it), whatever the unit
+const LOG_SCALE_SPREAD = 1000;
+
+/**
+ * Resamples a series into a fixed number of columns. Longer series are aggregated per column;
+ * shorter series and time gaps are filled by linear interpolation between neighboring columns.
+ */
+export function resampleSeries(series: number[], columns: number, options: ResampleOptions = {}): number[] {
+  const { aggregation = "average", timestamps } = options;
+  const points = toPoints(series, timestamps);
+
+  if (points.length === 0) return Array(columns).fill(0);
+  if (points.length === 1) return Array(columns).fill(points[0].value);
+
+  const start = points[0].time;
+  const span = points[points.length - 1].time - start;
+
+  // Without timestamps a short series is stretched point to point instead of bucketed
+  if (!timestamps && points.length < columns) {
+    return Array.from({ length: columns }, (_, column) => {
+      const position = (column / (columns - 1)) * (points.length - 1);
+      const index = Math.floor(position);
+      const next = points[Math.min(points.length - 1, index + 1)];
+      return points[index].value + (next.value - points[index].value) * (position - index);
+    });
+  }
+
+  const buckets: number[][] = Array.from({ length: columns }, () => []);
+  points.forEach(({ value, time }) => {
+    const column = span === 0 ? 0 : Math.min(columns - 1, Math.floor(((time - start) / span) * columns));
+    buckets[column].push(value);
+  });
+
+  return fillGaps(buckets.map((values) => (values.length > 0 ? aggregate(values, aggregation) : null)));
+}
+
+/**
+ * The span each column of resampleSeries covers. Columns stretched between
+ * two samples of a short series cover a single point between them.
+ */
+export function columnSpans(series: number[], columns: number, timestamps?: (number | Date)[]): ColumnSpan[] {
+  const points = toPoints(series, timestamps);
+  if (points.length === 0) return Array.from({ length: columns }, () => ({ start: 0, end: 0 }));
+
+  const start = points[0].time;
+  const span = points[points.length - 1].time - start;
+
+  if (!timestamps && points.length < columns) {
+    return Array.from({ length: columns }, (_, column) => {
+      const position = start + (column / (columns - 1)) * span;
+      return { start: position, end: position };
+    });
+  }
+
+  return Array.from({ length: columns }, (_, column) => ({
+    start: start + (span * column) / columns,
+    end: start + (span * (column + 1)) / columns,
+  }));
+}
+
+/**
+ * Maps values to 0..1 between the bounds, clamping anything outside them.
+ * The log scale works on the share of the range, so the curve doesn't depend on the unit.
+ */
+export function scaleSeries(values: number[], options: ScaleOptions = {}): number[] {
+  const { scale = "linear" } = options;
+  const min = options.min ?? Math.min(0, ...values);
+  const max = options.max ?? Math.max(...values);
+  const range = max - min;
+  if (!(range > 0)) return values.map(() => 0);
+
+  return values.map((value) => {
+    const offset = Math.max(0, Math.min(range, value - min));
+    return scale === "log"
+      ? Math.log1p((LOG_SCALE_SPREAD * offset) / range) / Math.log1p(LOG_SCALE_SPREAD)
+      : offset / range;
+  });
+}
+
+/**
+ * Quantile bucket per value: 0 for zero, negative or missing values, then 1..count from the
+ * lowest to the highest positive values. The maximum always lands in the top bucket.
+ */
+export function quantileBuckets(values: (number | undefined)[], count: number): number[] {
+  const positive = values
+    .filter((value): value is number => value !== undefined && Number.isFinite(value) && value > 0)
+    .sort((a, b) => a - b);
+  if (positive.length === 0 || count < 1) return values.map(() => 0);
+
+  // Value at the upper quantile of every bucket but the last
+  const limits = Array.from(
+    { length: count - 1 },
+    (_, index) => positive[Math.ceil(((index + 1) / count) * positive.length) - 1]
+  );
+  const max = positive[positive.length - 1];
+
+  return values.map((value) => {
+    if (value === undefined || !Number.isFinite(value) || value <= 0) return 0;
+    if (value >= max) return count;
+    return 1 + limits.filter((limit) => limit < value).length;
+  });
+}
+
+/**
+ * Helper: Valid samples in time order
+ */
+function toPoints(series: number[], timestamps?: (number | Date)[]): { value: number; time: number }[] {
+  return series
+    .map((value, index) => ({ value, time: timestamps ? toTime(timestamps[index]) : index }))
+    .filter(({ value, time }) => Number.isFinite(value) && Number.isFinite(time))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Helper: Combine the samples that fall into one column
+ */
+function aggregate(values: number[], aggregation: SeriesAggregation): number {
+  switch (aggregation) {
+    case "average":
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case "max":
+      return Math.max(...values);
+    case "last":
+      return values[values.length - 1];
+  }
+}
+
+/**
+ * Helper: Interpolate empty columns from their neighbors, extending the edges flat
+ */
+function fillGaps(columns: (number | null)[]): number[] {
+  return columns.map((value, index) => {
+    if (value !== null) return value;
+
+    let before = index - 1;
+    while (before >= 0 && columns[before] === null) before--;
+    let after = index + 1;
+    while (after < columns.length && columns[after] === null) after++;
+
+    const left = before >= 0 ? columns[before] : null;
+    const right = after < columns.length ? columns[after] : null;
+    if (left === null) return right ?? 0;
+    if (right === null) return left;
+    return left + ((right - left) * (index - before)) / (after - before);
+  });
+}
+
+/**
+ * Helper: Milliseconds for a Date, numbers pass through
+ */
+function toTime(timestamp: number | Date | undefined): number {
+  return timestamp instanceof Date ? timestamp.getTime() : (timestamp ?? NaN);
+}
@@ -0,0 +1,172 @@
+import {
+  clipPositions,
+  dedupePositions,
+  toGridDimensions,
+  type GridSize,
+  type Position,
+} from "./halftone";
+
+/**
+ * A single-frame transform, ready to be composed or mapped over animation frames
+ */
+export type PositionTransform = (positions: Position[]) => Position[];
+
+export type TranslateMode = "clip" | "wrap";
+
+export type MirrorAxis = "horizontal" | "vertical" | "both";
+
+/**
+ * Rotates by quarter turns, clockwise for positive turns.
+ * On non-square grids the result lives on the transposed (rows x columns) grid.
+ */
+export function rotateQuarter(positions: Position[], grid: GridSize, turns: number = 1): Position[] {
+  const { columns, rows } = toGridDimensions(grid);
+  const normalized = ((turns % 4) + 4) % 4;
+
+  return positions.map(({ x, y }) => {
+    switch (normalized) {
+      case 1:
+        return { x: rows - 1 - y, y: x };
+      case 2:
+        return { x: columns - 1 - x, y: rows - 1 - y };
+      case 3:
+        return { x: y, y: columns - 1 - x };
+      default:
+        return { x, y };
+    }
+  });
+}
+
+/**
+ * Rotates by any angle (degrees, clockwise on screen) around the grid center or a given point.
+ * Every grid dot samples the nearest source dot, so the result has no holes and is clipped to the grid.
+ */
+export function rotate(positions: Position[], grid: GridSize, angle: number, center?: Position): Position[] {
+  const { columns, rows } = toGridDimensions(grid);
+  const pivot = center ?? { x: (columns - 1) / 2, y: (rows - 1) / 2 };
+  const source = new Set(positions.map(({ x, y }) => `${x},${y}`));
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotated: Position[] = [];
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      // Inverse rotation: find where this dot came from
+      const dx = x - pivot.x;
+      const dy = y - pivot.y;
+      const sourceX = roundCoordinate(pivot.x + dx * cos + dy * sin);
+      const sourceY = roundCoordinate(pivot.y - dx * sin + dy * cos);
+      if (source.has(`${sourceX},${sourceY}`)) {
+        rotated.push({ x, y });
+      }
+    }
+  }
+
+  return rotated;
+}
+
+/**
+ * Mirrors left to right
+ */
+export function flipHorizontal(positions: Position[], grid: GridSize): Position[] {
+  const { columns } = toGridDimensions(grid);
+  return positions.map(({ x, y }) => ({ x: columns - 1 - x, y }));
+}
+
+/**
+ * Mirrors top to bottom
+ */
+export function flipVertical(positions: Position[], grid: GridSize): Position[] {
+  const { rows } = toGridDimensions(grid);
+  return positions.map(({ x, y }) => ({ x, y: rows - 1 - y }));
+}
+
+/**
+ * Moves every dot, dropping what leaves the grid or wrapping it around to the other side
+ */
+export function translate(
+  positions: Position[],
+  grid: GridSize,
+  dx: number,
+  dy: number,
+  mode: TranslateMode = "clip"
+): Position[] {
+  const dimensions = { ...toGridDimensions(grid), wrap: mode === "wrap" };
+  return clipPositions(
+    positions.map(({ x, y }) => ({ x: x + dx, y: y + dy })),
+    dimensions
+  );
+}
+
+/**
+ * Integer upscale: each dot becomes a factor x factor block, measured from the origin (top-left by default)
+ */
+export function scale(
+  positions: Position[],
+  grid: GridSize,
+  factor: number,
+  origin: Position = { x: 0, y: 0 }
+): Position[] {
+  const size = Math.max(1, Math.round(factor));
+  const scaled = positions.flatMap(({ x, y }) =>
+    Array.from({ length: size * size }, (_, index) => ({
+      x: origin.x + (x - origin.x) * size + (index % size),
+      y: origin.y + (y - origin.y) * size + Math.floor(index / size),
+    }))
+  );
+  return dedupePositions(clipPositions(scaled, toGridDimensions(grid)));
+}
+
+/**
+ * Makes a shape symmetric by adding its reflection across the center line(s)
+ */
+export function mirror(positions: Position[], grid: GridSize, axis: MirrorAxis = "horizontal"): Position[] {
+  const mirrored = [...positions];
+  if (axis === "horizontal" || axis === "both") {
+    mirrored.push(...flipHorizontal(mirrored, grid));
+  }
+  if (axis === "vertical" || axis === "both") {
+    mirrored.push(...flipVertical(mirrored, grid));
+  }
+  return dedupePositions(mirrored);
+}
+
+/**
+ * Chains transforms left to right
+ */
+export function composeTransforms(...transforms: PositionTransform[]): PositionTransform {
+  return (positions) => transforms.reduce((current, transform) => transform(current), positions);
+}
+
+/**
+ * Applies a transform to every frame of an animation
+ */
+export function transformFrames(frames: Position[][], transform: PositionTransform): Position[][] {
+  return frames.map((frame) => transform(frame));
+}
+
+/**
+ * Plays an animation backwards
+ */
+export function reverseFrames(frames: Position[][]): Position[][] {
+  return [...frames].reverse();
+}
+
+/**
+ * Spins one shape through a full turn in evenly spaced steps.
+ * Quarter-turn steps stay exact, everything else is resampled.
+ */
+export function createRotationFrames(shape: Position[], grid: GridSize, steps: number): Position[][] {
+  return Array.from({ length: steps }, (_, step) => {
+    const angle = (360 / steps) * step;
+    return angle % 90 === 0 ? rotateQuarter(shape, grid, angle / 90) : rotate(shape, grid, angle);
+  });
+}
+
+/**
+ * Helper: Round while absorbing floating point noise from the trigonometry
+ */
+function roundCoordinate(value: number): number {
+  return Math.round(Math.round(value * 1e6) / 1e6);
+}
@@ -0,0 +1,208 @@
+import { dedupePositions, toGridDimensions, type GridSize, type Position } from "./halftone";
+import { createRandom, hashSeed } from "./random";
+
+/**
+ * How in-between frames are built:
+ * - match: every dot travels to its nearest counterpart in the next keyframe
+ * - dissolve: dots appear and disappear in a seeded random order
+ * - wipe: the next keyframe sweeps in along a direction (degrees, 0° = right, 90° = down)
+ * - radial: the next keyframe grows outward from a center (grid center by default)
+ */
+export type TweenMode =
+  | { type: "match" }
+  | { type: "dissolve"; seed?: number }
+  | { type: "wipe"; angle?: number }
+  | { type: "radial"; center?: Position };
+
+/**
+ * A keyframe, optionally held for extra frames instead of repeating it by hand
+ */
+export type Keyframe = Position[] | { positions: Position[]; hold?: number };
+
+export interface TweenOptions {
+  grid: GridSize;
+  frames: number; // In-between frames per transition
+  mode?: TweenMode; // Default { type: "match" }
+  loop?: boolean; // Also tween from the last keyframe back to the first
+}
+
+/**
+ * Builds an `animationPath` from keyframes, generating the in-between frames for each transition
+ */
+export function createTween(
+  keyframes: Keyframe[],
+  { grid, frames, mode = { type: "match" }, loop = false }: TweenOptions
+): Position[][] {
+  const normalized = keyframes.map((keyframe) =>
+    Array.isArray(keyframe)
+      ? { positions: keyframe, hold: 0 }
+      : { positions: keyframe.positions, hold: keyframe.hold ?? 0 }
+  );
+  const path: Position[][] = [];
+
+  normalized.forEach((keyframe, index) => {
+    for (let repeat = 0; repeat <= keyframe.hold; repeat++) {
+      path.push(keyframe.positions);
+    }
+
+    const next = normalized[index + 1] ?? (loop && normalized.length > 1 ? normalized[0] : null);
+    if (next) {
+      path.push(...tweenFrames(keyframe.positions, next.positions, frames, mode, grid));
+    }
+  });
+
+  return path;
+}
+
+/**
+ * In-between frames from one keyframe to the next (both keyframes excluded)
+ */
+export function tweenFrames(
+  from: Position[],
+  to: Position[],
+  frames: number,
+  mode: TweenMode,
+  grid: GridSize
+): Position[][] {
+  const interpolate = createInterpolator(from, to, mode, grid);
+  return Array.from({ length: Math.max(0, frames) }, (_, step) => interpolate((step + 1) / (frames + 1)));
+}
+
+/**
+ * Helper: Frame builder for progress t in (0, 1)
+ */
+function createInterpolator(
+  from: Position[],
+  to: Position[],
+  mode: TweenMode,
+  grid: GridSize
+): (t: number) => Position[] {
+  switch (mode.type) {
+    case "match":
+      // Nothing to travel from or to, so grow the other shape in instead
+      if (from.length === 0 || to.length === 0) {
+        return createInterpolator(from, to, { type: "radial" }, grid);
+      }
+      return createMatchInterpolator(from, to);
+    case "dissolve": {
+      const random = createRandom(mode.seed ?? hashSeed(`${serialize(from)}|${serialize(to)}`));
+      const order = new Map<string, number>();
+      [...from, ...to].forEach(({ x, y }) => {
+        const key = `${x},${y}`;
+        if (!order.has(key)) order.set(key, random());
+      });
+      return createThresholdInterpolator(from, to, (x, y) => order.get(`${x},${y}`) ?? 0);
+    }
+    case "wipe": {
+      const radians = ((mode.angle ?? 0) * Math.PI) / 180;
+      const direction = { x: Math.cos(radians), y: Math.sin(radians) };
+      return createThresholdInterpolator(
+        from,
+        to,
+        normalizeOver(grid, (x, y) => x * direction.x + y * direction.y)
+      );
+    }
+    case "radial": {
+      const { columns, rows } = toGridDimensions(grid);
+      const center = mode.center ?? { x: (columns - 1) / 2, y: (rows - 1) / 2 };
+      return createThresholdInterpolator(
+        from,
+        to,
+        normalizeOver(grid, (x, y) => Math.hypot(x - center.x, y - center.y))
+      );
+    }
+  }
+}
+
+/**
+ * Helper: Dots move in straight lines from their matched start to their matched end
+ */
+function createMatchInterpolator(from: Position[], to: Position[]): (t: number) => Position[] {
+  const pairs = matchPositions(from, to);
+  return (t) =>
+    dedupePositions(
+      pairs.map(([start, end]) => ({
+        x: Math.round(start.x + (end.x - start.x) * t),
+        y: Math.round(start.y + (end.y - start.y) * t),
+      }))
+    );
+}
+
+/**
+ * Helper: Each dot switches from the old keyframe to the new one once t passes its threshold (0..1)
+ */
+function createThresholdInterpolator(
+  from: Position[],
+  to: Position[],
+  threshold: (x: number, y: number) => number
+): (t: number) => Position[] {
+  return (t) => [
+    ...from.filter(({ x, y }) => threshold(x, y) >= t),
+    ...to.filter(({ x, y }) => threshold(x, y) < t),
+  ];
+}
+
+/**
+ * Helper: Rescale a per-dot measure to 0..1 across the whole grid
+ */
+function normalizeOver(
+  grid: GridSize,
+  measure: (x: number, y: number) => number
+): (x: number, y: number) => number {
+  const { columns, rows } = toGridDimensions(grid);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const value = measure(x, y);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  const range = max - min || 1;
+  return (x, y) => (measure(x, y) - min) / range;
+}
+
+/**
+ * Helper: Greedy nearest-neighbor pairing. Closest pairs are matched one to one first;
+ * leftover dots of the larger keyframe join their nearest counterpart.
+ */
+function matchPositions(from: Position[], to: Position[]): [Position, Position][] {
+  const candidates: { fromIndex: number; toIndex: number; distance: number }[] = [];
+  from.forEach((a, fromIndex) => {
+    to.forEach((b, toIndex) => {
+      candidates.push({ fromIndex, toIndex, distance: Math.hypot(a.x - b.x, a.y - b.y) });
+    });
+  });
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const fromMatched = new Set<number>();
+  const toMatched = new Set<number>();
+  const pairs: [Position, Position][] = [];
+
+  candidates.forEach(({ fromIndex, toIndex }) => {
+    if (fromMatched.has(fromIndex) || toMatched.has(toIndex)) return;
+    fromMatched.add(fromIndex);
+    toMatched.add(toIndex);
+    pairs.push([from[fromIndex], to[toIndex]]);
+  });
+
+  candidates.forEach(({ fromIndex, toIndex }) => {
+    if (!fromMatched.has(fromIndex)) {
+      fromMatched.add(fromIndex);
+      pairs.push([from[fromIndex], to[toIndex]]);
+    } else if (!toMatched.has(toIndex)) {
+      toMatched.add(toIndex);
+      pairs.push([from[fromIndex], to[toIndex]]);
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * Helper: Stable string form of a keyframe, used to derive the default dissolve seed
+ */
+function serialize(positions: Position[]): string {
+  return positions.map(({ x, y }) => `${x},${y}`).join(";");
+}